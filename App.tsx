@@ -5,24 +5,77 @@
 */
 import React, { useState, useEffect, useRef } from 'react';
 import { Hero } from './components/Hero';
-import { InputArea } from './components/InputArea';
-import { LivePreview } from './components/LivePreview';
-import { CreationHistory, Creation } from './components/CreationHistory';
-import { bringToLife, generateFluxImage, identifyImage, IdentificationResult } from './services/gemini';
+import { InputArea, GenerationInputFile, GenerationOptions } from './components/InputArea';
+import { LivePreview, GenerationProgress, RepairStatus } from './components/LivePreview';
+import { CreationHistory, Creation, CreationAlternate, CreationInput } from './components/CreationHistory';
+import { StorageManager } from './components/StorageManager';
+import { ImportDialog, ImportMode } from './components/ImportDialog';
+import { DetectionReview } from './components/DetectionReview';
+import { VariantGrid } from './components/VariantGrid';
+import { appendRevision, createRevision, restoreRevision } from './services/revisions';
+import { streamBringToLife, generateImage, identifyImage, refineCreation, repairCreation, BringToLifeRequest, IdentificationResult, GenerationAttachment } from './services/gemini';
+import { buildDocumentText, renderPdfPages } from './services/pdf';
+import { createAbortError, isAbortError } from './services/abort';
+import { readImportFiles, markCollisions, applyImport, ImportItem, CollisionStrategy } from './services/importer';
+import { validateCreation } from './services/schema';
+import { buildLibraryBackup, downloadBlob } from './services/exporter';
+import { loadCreations, loadInputs, loadOriginalImage, saveCreations, deleteCreations, getStorageEstimate, isQuotaError, StorageEstimate } from './services/storage';
+import { clearArtifactStorage } from './services/sandbox';
+import { inputsLoaded, readFileAsBase64 } from './services/inputs';
+import { buildDetectionContext, getReviewEnabled, setReviewEnabled } from './services/review';
+import { toStyleSnapshot } from './services/styles';
+import { auditProject, auditSource, buildProjectPreview, getArtifactTarget } from './services/project';
+import { ProjectFile } from './services/vfs';
+import { GeneratedArtifact, Variant, generateArtifact, runWithConcurrency, toAlternate, variantSeeds } from './services/variants';
+import { GenerationParams, GenerationSettings, getDefaultGenerationSettings, settingsFromParams } from './services/generationSettings';
+import { ConsoleEntry } from './services/console';
+import { ArtifactWarning, auditHtml } from './services/htmlAudit';
+import { AutoFixSettings, collectRuntimeErrors, getAutoFixSettings, setAutoFixSettings } from './services/repair';
+import { getActiveProvider, getActiveProviderId, listProviders, setActiveProviderId, ProviderId } from './services/providers';
 import { SparklesIcon, KeyIcon, ArrowRightIcon } from '@heroicons/react/24/solid';
 
+// Vision scans run once per page, so each long PDF only scans its first pages; standalone images are always scanned
+const MAX_SCANNED_PAGES = 3;
+
 const App: React.FC = () => {
   const [activeCreation, setActiveCreation] = useState<Creation | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isRefining, setIsRefining] = useState(false);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
   const [history, setHistory] = useState<Creation[]>([]);
   const [hasApiKey, setHasApiKey] = useState<boolean | null>(null);
+  const [providerId, setProviderId] = useState<ProviderId>(getActiveProviderId());
   const [identifications, setIdentifications] = useState<IdentificationResult[]>([]);
   const importInputRef = useRef<HTMLInputElement>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [importItems, setImportItems] = useState<ImportItem[] | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [autoFix, setAutoFix] = useState<AutoFixSettings>(getAutoFixSettings);
+  const [repairStatus, setRepairStatus] = useState<RepairStatus | null>(null);
+  const [reviewEnabled, setReviewEnabledState] = useState(getReviewEnabled);
+  const [pendingReview, setPendingReview] = useState<IdentificationResult[] | null>(null);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(getDefaultGenerationSettings);
+  const [variants, setVariants] = useState<Variant[] | null>(null);
+  // Resumes a generation paused at the review stage with the approved detections
+  const reviewResolverRef = useRef<((approved: IdentificationResult[]) => void) | null>(null);
+  // Resumes a variants run with the ids the user chose to keep
+  const variantResolverRef = useRef<((ids: string[]) => void) | null>(null);
+  // Repair rounds spent on each creation since its last clean or user-driven change
+  const repairRoundsRef = useRef<Map<string, number>>(new Map());
+  // Last persisted object per id; creations are immutable, so identity tells us what changed
+  const persistedRef = useRef<Map<string, Creation>>(new Map());
 
-  // Check for API key on load
+  // Check for API key on load and whenever the provider changes
   useEffect(() => {
     const checkKey = async () => {
-      if (window.aistudio?.hasSelectedApiKey) {
+      if (!getActiveProvider().requiresApiKey) {
+        setHasApiKey(true);
+      } else if (window.aistudio?.hasSelectedApiKey) {
         const hasKey = await window.aistudio.hasSelectedApiKey();
         setHasApiKey(hasKey);
       } else {
@@ -30,7 +83,12 @@ const App: React.FC = () => {
       }
     };
     checkKey();
-  }, []);
+  }, [providerId]);
+
+  const handleProviderChange = (id: ProviderId) => {
+    setActiveProviderId(id);
+    setProviderId(id);
+  };
 
   const handleOpenKeySelection = async () => {
     if (window.aistudio?.openSelectKey) {
@@ -41,17 +99,12 @@ const App: React.FC = () => {
 
   useEffect(() => {
     const initHistory = async () => {
-      const saved = localStorage.getItem('gemini_app_history');
       let loadedHistory: Creation[] = [];
-      if (saved) {
-        try {
-          const parsed = JSON.parse(saved);
-          loadedHistory = parsed.map((item: any) => ({
-              ...item,
-              timestamp: new Date(item.timestamp)
-          }));
-        } catch (e) { console.error("Failed to load history", e); }
-      }
+      try {
+        loadedHistory = await loadCreations();
+      } catch (e) { console.error("Failed to load history", e); }
+      persistedRef.current = new Map(loadedHistory.map(c => [c.id, c]));
+      setHistoryLoaded(true);
       if (loadedHistory.length > 0) {
         setHistory(loadedHistory);
       } else {
@@ -64,8 +117,8 @@ const App: React.FC = () => {
            const examples = await Promise.all(exampleUrls.map(async (url) => {
                const res = await fetch(url);
                if (!res.ok) return null;
-               const data = await res.json();
-               return { ...data, timestamp: new Date(data.timestamp || Date.now()), id: data.id || crypto.randomUUID() };
+               const result = validateCreation(await res.json());
+               return result.ok ? result.creation : null;
            }));
            const validExamples = examples.filter((e): e is Creation => e !== null);
            setHistory(validExamples);
@@ -75,22 +128,74 @@ const App: React.FC = () => {
     initHistory();
   }, []);
 
+  const refreshStorageEstimate = () => {
+    getStorageEstimate().then(setStorageEstimate).catch(e => console.warn("Storage estimate unavailable", e));
+  };
+
+  // Write only the creations that changed since the last sync
   useEffect(() => {
-    if (history.length > 0) {
-        try { localStorage.setItem('gemini_app_history', JSON.stringify(history)); } catch (e) { console.warn("Local storage full", e); }
-    }
-  }, [history]);
-
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => resolve((reader.result as string).split(',')[1]);
-      reader.onerror = (error) => reject(error);
-    });
+    if (!historyLoaded) return;
+    const previous = persistedRef.current;
+    const next = new Map(history.map(c => [c.id, c]));
+    const changed = history.filter(c => previous.get(c.id) !== c);
+    const removed = [...previous.keys()].filter(id => !next.has(id));
+    persistedRef.current = next;
+
+    Promise.all([saveCreations(changed), deleteCreations(removed)])
+      .then(() => setStorageError(null))
+      .catch(e => {
+        console.error("Failed to save history", e);
+        // Forget the failed writes so they are retried on the next change
+        changed.forEach(c => persistedRef.current.delete(c.id));
+        setStorageError(isQuotaError(e)
+          ? "Storage is full. Recent creations are not being saved; evict older items to free space."
+          : "Creations could not be saved to browser storage.");
+      })
+      .finally(refreshStorageEstimate);
+  }, [history, historyLoaded]);
+
+  const handleSelectCreation = async (creation: Creation) => {
+    setActiveCreation(creation);
+    if (inputsLoaded(creation)) return;
+    try {
+      const originalImage = await loadOriginalImage(creation);
+      const inputs = creation.inputs && await loadInputs(creation);
+      const hydrated = { ...creation, originalImage, inputs };
+      setActiveCreation(current => current?.id === creation.id ? hydrated : current);
+      setHistory(prev => prev.map(c => c.id === creation.id ? hydrated : c));
+    } catch (e) { console.error("Failed to load original asset", e); }
+  };
+
+  const handleDeleteCreations = (ids: string[]) => {
+    ids.forEach(clearArtifactStorage);
+    setHistory(prev => prev.filter(c => !ids.includes(c.id)));
+    setActiveCreation(current => current && ids.includes(current.id) ? null : current);
+  };
+
+  // Starts a new cancellable request, aborting whatever was still in flight
+  const beginRequest = (): AbortSignal => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    reviewResolverRef.current = null;
+    variantResolverRef.current = null;
+    setPendingReview(null);
+    setVariants(null);
+    setIsGenerating(false);
+    setIsRefining(false);
+    setProgress(null);
   };
 
   const handleError = (error: any) => {
+    // Cancellation already reset the UI in handleCancel
+    if (isAbortError(error)) return;
+    setProgress(null);
     if (error.message === "KEY_RESET_REQUIRED") {
         setHasApiKey(false);
         setIsGenerating(false);
@@ -101,41 +206,196 @@ const App: React.FC = () => {
     }
   };
 
-  const handleGenerate = async (promptText: string, file?: File) => {
+  const awaitReview = (detections: IdentificationResult[], signal: AbortSignal) => new Promise<IdentificationResult[]>((resolve, reject) => {
+    reviewResolverRef.current = resolve;
+    setPendingReview(detections);
+    signal.addEventListener('abort', () => reject(createAbortError()), { once: true });
+  });
+
+  const handleApproveReview = (approved: IdentificationResult[]) => {
+    reviewResolverRef.current?.(approved);
+    reviewResolverRef.current = null;
+    setPendingReview(null);
+  };
+
+  /**
+   * Generates every variant with at most the configured number in flight and
+   * resolves once the user picks. Each kept variant gets every other finished
+   * one as its alternates, including the siblings kept alongside it, so any of
+   * them can be switched to later. Picking early stops the rest.
+   */
+  const awaitVariants = async (request: BringToLifeRequest, signal: AbortSignal) => {
+    const { count, concurrency } = generationSettings.variants;
+    const runs = new AbortController();
+    const stopRuns = () => runs.abort();
+    signal.addEventListener('abort', stopRuns, { once: true });
+    const seeds = variantSeeds(generationSettings.code.seed, count);
+    const launched: Variant[] = seeds.map((_, i) => ({ id: crypto.randomUUID(), index: i + 1, status: 'queued', receivedChars: 0 }));
+    const results = new Map<string, GeneratedArtifact>();
+    const update = (id: string, changes: Partial<Variant>) => setVariants(prev => prev && prev.map(v => v.id === id ? { ...v, ...changes } : v));
+    const choice = new Promise<string[]>((resolve, reject) => {
+      variantResolverRef.current = resolve;
+      signal.addEventListener('abort', () => reject(createAbortError()), { once: true });
+    });
+    setVariants(launched);
+
+    runWithConcurrency(launched.map((variant, i) => async () => {
+      if (runs.signal.aborted) return;
+      update(variant.id, { status: 'streaming' });
+      try {
+        const result = await generateArtifact({ ...request, settings: { ...generationSettings.code, seed: seeds[i] } }, runs.signal, receivedChars => update(variant.id, { receivedChars }));
+        results.set(variant.id, result);
+        update(variant.id, { status: 'done', result });
+      } catch (error: any) {
+        if (isAbortError(error)) return;
+        console.error(`Variant ${variant.index} failed:`, error);
+        update(variant.id, { status: 'failed', error: error.message === 'KEY_RESET_REQUIRED' ? 'The API key needs to be selected again.' : error.message });
+      }
+    }), concurrency);
+
+    try {
+      const chosen = await choice;
+      const finished = launched.filter(v => results.has(v.id));
+      return finished.filter(v => chosen.includes(v.id)).map(v => ({
+        index: v.index,
+        result: results.get(v.id)!,
+        alternates: finished.filter(other => other.id !== v.id).map(other => toAlternate(other.id, results.get(other.id)!, request.target)),
+      }));
+    } finally {
+      runs.abort();
+      signal.removeEventListener('abort', stopRuns);
+      setVariants(null);
+    }
+  };
+
+  const handlePromoteVariants = (ids: string[]) => {
+    variantResolverRef.current?.(ids);
+    variantResolverRef.current = null;
+  };
+
+  const handleReviewEnabledChange = (enabled: boolean) => {
+    setReviewEnabledState(enabled);
+    setReviewEnabled(enabled);
+  };
+
+  const handleGenerate = async (promptText: string, files: GenerationInputFile[] = [], options?: GenerationOptions) => {
+    const signal = beginRequest();
     setIsGenerating(true);
     setActiveCreation(null);
     setIdentifications([]);
+    setProgress({ stage: files.length > 0 ? 'identifying' : 'generating', scanned: files.length > 0, detections: 0, thinking: '', partialHtml: '', receivedChars: 0 });
     try {
-      let imageBase64: string | undefined;
-      let mimeType: string | undefined;
+      const inputs: CreationInput[] = [];
+      const parts: { attachment: GenerationAttachment; inputId: string; page?: number; detections?: IdentificationResult[] }[] = [];
+      const documents: string[] = [];
       let detections: IdentificationResult[] = [];
 
-      if (file) {
-        imageBase64 = await fileToBase64(file);
-        mimeType = file.type.toLowerCase();
-        // Step 1: Identification (Eburon-YOLO26 Scan)
-        detections = await identifyImage(imageBase64, mimeType);
+      // Every file becomes one or more ordered parts, each introduced by its label
+      for (const [index, { file, caption, pages: pdfPages, detections: corrected }] of files.entries()) {
+        const base64 = await readFileAsBase64(file);
+        const mimeType = file.type.toLowerCase();
+        if (signal.aborted) return;
+        const label = files.length > 1 || caption
+          ? `Input ${index + 1} of ${files.length}: ${file.name}${caption ? ` — ${caption}` : ''}`
+          : undefined;
+        const input: CreationInput = { id: crypto.randomUUID(), name: file.name, mimeType, caption, data: `data:${mimeType};base64,${base64}` };
+        if (mimeType === 'application/pdf') {
+          // Send rendered pages plus their text; the vision prompt and schema are built for images
+          const { pages, pageCount } = await renderPdfPages(file, pdfPages?.length ? pdfPages : [1], signal);
+          parts.push(...pages.map(p => ({
+            attachment: { data: p.image, mimeType: 'image/jpeg', label: [label, `Page ${p.number} of ${pageCount}`].filter(Boolean).join(' · ') },
+            inputId: input.id,
+            page: p.number,
+          })));
+          const text = buildDocumentText(pages, pageCount);
+          if (text) documents.push(label ? `=== ${label} ===\n${text}` : text);
+          input.pages = pages.map(p => p.number);
+        } else {
+          parts.push({ attachment: { data: base64, mimeType, label }, inputId: input.id, detections: corrected });
+        }
+        inputs.push(input);
+      }
+      const attachments = parts.map(p => p.attachment);
+      const documentText = documents.join('\n\n') || undefined;
+
+      if (parts.length > 0) {
+        // Step 1: Identification (Eburon-YOLO26 Scan); images corrected before submitting are not scanned again
+        const scannedPages = new Map<string, number>();
+        for (const { attachment, inputId, page, detections: corrected } of parts) {
+          const scanned = scannedPages.get(inputId) || 0;
+          if (!corrected && page !== undefined && scanned >= MAX_SCANNED_PAGES) continue;
+          let found = corrected;
+          if (!found) {
+            found = await identifyImage(attachment.data, attachment.mimeType, signal);
+            if (page !== undefined) scannedPages.set(inputId, scanned + 1);
+          }
+          detections.push(...found
+            .filter(d => d.label.trim())
+            .map(d => ({ ...d, inputId, page, description: parts.length > 1 ? `${attachment.label}: ${d.description}` : d.description })));
+          setProgress(prev => prev && { ...prev, detections: detections.length });
+        }
         setIdentifications(detections);
+        setProgress(prev => prev && { ...prev, stage: 'generating', detections: detections.length });
+      }
+
+      // Optional pause so the user can approve what is sent as context
+      let approved: IdentificationResult[] | undefined;
+      if (reviewEnabled && parts.length > 0) {
+        setProgress(prev => prev && { ...prev, stage: 'reviewing' });
+        approved = await awaitReview(detections, signal);
+        setProgress(prev => prev && { ...prev, stage: 'generating', detections: approved!.length });
       }
 
       // Step 2: Generation with Context
-      const detectionContext = detections.length > 0 
-        ? detections.map(d => `- ${d.label} (${d.type}): ${d.description}`).join('\n')
-        : undefined;
-
-      const html = await bringToLife(promptText, imageBase64, mimeType, detectionContext);
-      if (html) {
-        const newCreation: Creation = {
-          id: crypto.randomUUID(),
-          name: file ? file.name : promptText ? promptText.slice(0, 30) : 'New Creation',
-          html: html,
-          originalImage: imageBase64 && mimeType ? `data:${mimeType};base64,${imageBase64}` : undefined,
-          timestamp: new Date(),
-          identifications: detections.length > 0 ? detections : undefined
-        };
-        setActiveCreation(newCreation);
-        setHistory(prev => [newCreation, ...prev]);
+      const request: BringToLifeRequest = { prompt: promptText, attachments, documentText, detectionContext: buildDetectionContext(approved ?? detections), style: options?.style, target: options?.target, settings: generationSettings.code };
+      const primary = inputs[0];
+      const name = primary ? `${primary.name}${inputs.length > 1 ? ` (+${inputs.length - 1})` : ''}` : promptText ? promptText.slice(0, 30) : 'New Creation';
+      const toCreation = ({ html, files: projectFiles, warnings, params }: GeneratedArtifact, creationName: string, alternates?: CreationAlternate[]): Creation => ({
+        id: crypto.randomUUID(),
+        name: creationName,
+        prompt: promptText || undefined,
+        source: !primary ? 'text' : primary.mimeType === 'application/pdf' ? 'pdf' : 'image',
+        html: html,
+        target: projectFiles ? options?.target : undefined,
+        files: projectFiles,
+        revisions: [createRevision(html, 'generate', undefined, projectFiles)],
+        originalImage: primary?.data,
+        pages: primary?.pages,
+        inputs: inputs.length > 0 ? inputs : undefined,
+        timestamp: new Date(),
+        identifications: detections.length > 0 ? detections : undefined,
+        approvedIdentifications: approved,
+        style: options?.style && toStyleSnapshot(options.style),
+        generation: { code: params },
+        warnings: warnings.length > 0 ? warnings : undefined,
+        alternates: alternates?.length ? alternates : undefined
+      });
+
+      let created: Creation[] = [];
+      if (generationSettings.variants.count > 1) {
+        setProgress(prev => prev && { ...prev, thinking: `Generating ${generationSettings.variants.count} variants...` });
+        const chosen = await awaitVariants(request, signal);
+        created = chosen.map(({ index, result, alternates }) => toCreation(result, `${name} · Variant ${index}`, alternates));
+      } else {
+        let result: GeneratedArtifact | undefined;
+        for await (const event of streamBringToLife(request, signal)) {
+          if (event.type === 'thinking') {
+            setProgress(prev => prev && { ...prev, thinking: event.text });
+          } else if (event.type === 'chunk') {
+            setProgress(prev => prev && { ...prev, stage: 'streaming', partialHtml: event.html, receivedChars: prev.receivedChars + event.text.length });
+          } else {
+            const { type, ...done } = event;
+            result = done;
+          }
+        }
+        if (result?.html) created = [toCreation(result, name)];
+      }
+
+      if (created.length > 0 && !signal.aborted) {
+        setActiveCreation(created[0]);
+        setHistory(prev => [...created, ...prev]);
         setIsGenerating(false);
+        setProgress(null);
       }
     } catch (error) {
       handleError(error);
@@ -143,27 +403,203 @@ const App: React.FC = () => {
   };
 
   const handleGenerateImage = async (prompt: string) => {
+    const signal = beginRequest();
     setIsGenerating(true);
     setActiveCreation(null);
+    setProgress({ stage: 'generating', scanned: false, detections: 0, thinking: 'Rendering with Eburon-FLUX Engine...', partialHtml: '', receivedChars: 0 });
     try {
-      const imageDataUrl = await generateFluxImage(prompt);
+      const { image: imageDataUrl, params } = await generateImage(prompt, generationSettings.image, signal);
+      if (signal.aborted) return;
       const html = `<!DOCTYPE html><html><head><script src="https://cdn.tailwindcss.com"></script></head><body class="bg-zinc-950 flex flex-col items-center justify-center min-h-screen p-8 text-white font-sans"><div class="max-w-2xl w-full bg-zinc-900 rounded-3xl overflow-hidden shadow-2xl border border-zinc-800 animate-in fade-in zoom-in-95 duration-1000"><img src="${imageDataUrl}" class="w-full aspect-square object-cover" /><div class="p-8 text-center"><h1 class="text-2xl font-bold mb-4">Eburon-FLUX Engine</h1><p class="text-zinc-400 mb-6 font-light italic">"${prompt}"</p><button onclick="window.print()" class="bg-white text-black px-8 py-3 rounded-full font-bold hover:bg-zinc-200 transition-all hover:scale-105 active:scale-95 shadow-lg">Download Artifact</button></div></div></body></html>`;
       
       const newCreation: Creation = {
         id: crypto.randomUUID(),
         name: `FLUX: ${prompt.slice(0, 20)}...`,
+        prompt,
+        source: 'flux',
         html: html,
+        revisions: [createRevision(html, 'generate')],
         originalImage: imageDataUrl,
         timestamp: new Date(),
+        generation: params ? { image: params } : undefined,
       };
       setActiveCreation(newCreation);
       setHistory(prev => [newCreation, ...prev]);
       setIsGenerating(false);
+      setProgress(null);
     } catch (error) {
       handleError(error);
     }
   };
 
+  const updateCreation = (updated: Creation) => {
+    setActiveCreation(current => current?.id === updated.id ? updated : current);
+    setHistory(prev => prev.map(c => c.id === updated.id ? updated : c));
+  };
+
+  const handleRefine = async (instruction: string) => {
+    if (!activeCreation) return;
+    const base = activeCreation;
+    const signal = beginRequest();
+    setIsRefining(true);
+    repairRoundsRef.current.delete(base.id);
+    try {
+      const { html, files, summary, warnings } = await refineCreation(base, instruction, base.refinements, generationSettings.code, signal);
+      const updated: Creation = {
+        ...appendRevision(base, html, 'refine', instruction, files),
+        warnings: warnings.length > 0 ? warnings : undefined,
+        refinements: [
+          ...(base.refinements || []),
+          { role: 'user', text: instruction, timestamp: Date.now() },
+          { role: 'model', text: summary, timestamp: Date.now() }
+        ]
+      };
+      updateCreation(updated);
+    } catch (error) {
+      handleError(error);
+    } finally {
+      if (!signal.aborted) setIsRefining(false);
+    }
+  };
+
+  /**
+   * One repair round: the patched document becomes a new revision, so a bad fix
+   * can be rolled back from the timeline like any other edit.
+   */
+  const runRepair = async (base: Creation, errors: string[], round: number) => {
+    const signal = beginRequest();
+    setIsRefining(true);
+    setRepairStatus({ round, maxRounds: autoFix.maxRounds });
+    repairRoundsRef.current.set(base.id, round);
+    try {
+      const { html, files, summary, warnings } = await repairCreation(base, errors, generationSettings.code, signal);
+      updateCreation({
+        ...appendRevision(base, html, 'repair', `Auto-fix ${round}/${autoFix.maxRounds}: ${summary}`, files),
+        consoleLog: undefined,
+        warnings: warnings.length > 0 ? warnings : undefined
+      });
+    } catch (error) {
+      handleError(error);
+    } finally {
+      if (!signal.aborted) setIsRefining(false);
+      setRepairStatus(null);
+    }
+  };
+
+  const handleFixErrors = (errors: string[]) => {
+    if (!activeCreation || errors.length === 0) return;
+    runRepair(activeCreation, errors, 1);
+  };
+
+  const handleAutoFixChange = (settings: AutoFixSettings) => {
+    setAutoFix(settings);
+    setAutoFixSettings(settings);
+  };
+
+  // Functional updates, since console output can land while other edits are in flight
+  const handleConsoleLog = (creationId: string, consoleLog: ConsoleEntry[]) => {
+    const apply = (c: Creation) => c.id === creationId ? { ...c, consoleLog: consoleLog.length ? consoleLog : undefined } : c;
+    setActiveCreation(current => current && apply(current));
+    setHistory(prev => prev.map(apply));
+
+    const errors = collectRuntimeErrors(consoleLog);
+    if (errors.length === 0) {
+      repairRoundsRef.current.delete(creationId);
+      return;
+    }
+    const rounds = repairRoundsRef.current.get(creationId) || 0;
+    if (autoFix.enabled && !isGenerating && !isRefining && activeCreation?.id === creationId && rounds < autoFix.maxRounds) {
+      runRepair(apply(activeCreation), errors, rounds + 1);
+    }
+  };
+
+  const handleSaveHtml = (html: string) => {
+    if (!activeCreation || html === activeCreation.html) return;
+    const warnings = auditHtml(html);
+    repairRoundsRef.current.delete(activeCreation.id);
+    updateCreation({
+      ...appendRevision(activeCreation, html, 'edit', 'Manual edit'),
+      consoleLog: undefined,
+      warnings: warnings.length > 0 ? warnings : undefined
+    });
+  };
+
+  const handleSaveFiles = (files: ProjectFile[], note = 'Manual edit') => {
+    if (!activeCreation) return;
+    const target = getArtifactTarget(activeCreation);
+    const warnings = auditProject(target, files);
+    repairRoundsRef.current.delete(activeCreation.id);
+    updateCreation({
+      ...appendRevision(activeCreation, buildProjectPreview(target, files), 'edit', note, files),
+      consoleLog: undefined,
+      warnings: warnings.length > 0 ? warnings : undefined
+    });
+  };
+
+  const handleReuseSettings = (params: GenerationParams, keepSeed: boolean) => {
+    setGenerationSettings(current => settingsFromParams(current, params, keepSeed));
+  };
+
+  // Swaps in an alternate variant as a new revision; the replaced output becomes an alternate in its place
+  const handleUseAlternate = (alternateId: string) => {
+    const alternate = activeCreation?.alternates?.find(a => a.id === alternateId);
+    if (!activeCreation || !alternate) return;
+    const replaced: CreationAlternate = {
+      id: crypto.randomUUID(),
+      html: activeCreation.html,
+      target: activeCreation.files ? activeCreation.target : undefined,
+      files: activeCreation.files,
+      params: activeCreation.generation?.code,
+      warnings: activeCreation.warnings,
+    };
+    repairRoundsRef.current.delete(activeCreation.id);
+    updateCreation({
+      ...appendRevision(activeCreation, alternate.html, 'generate', 'Switched to an alternate variant', alternate.files),
+      target: alternate.files ? alternate.target : undefined,
+      generation: alternate.params ? { ...activeCreation.generation, code: alternate.params } : activeCreation.generation,
+      consoleLog: undefined,
+      warnings: alternate.warnings,
+      alternates: [...activeCreation.alternates!.filter(a => a.id !== alternateId), replaced]
+    });
+  };
+
+  const handleRestoreRevision = (revisionId: string) => {
+    if (!activeCreation) return;
+    const restored = restoreRevision(activeCreation, revisionId);
+    const warnings = auditSource(restored);
+    updateCreation({ ...restored, warnings: warnings.length > 0 ? warnings : undefined });
+  };
+
+  const handleImportFiles = async (files: File[], restoring = false) => {
+    const items = await readImportFiles(files);
+    setIsRestoring(restoring);
+    setImportItems(markCollisions(items, history));
+  };
+
+  const handleConfirmImport = (strategies: Record<string, CollisionStrategy>, mode: ImportMode) => {
+    if (!importItems) return;
+    const outcome = mode === 'replace'
+      ? applyImport([], markCollisions(importItems, []), {})
+      : applyImport(history, importItems, strategies);
+    setHistory(outcome.history);
+    setImportItems(null);
+    if (mode === 'replace') setActiveCreation(null);
+    else if (outcome.imported.length === 1) setActiveCreation(outcome.imported[0]);
+  };
+
+  const handleBackup = async () => {
+    setIsBackingUp(true);
+    try {
+      const blob = await buildLibraryBackup(history);
+      downloadBlob(blob, `eburon_library_${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (e) {
+      console.error("Backup failed", e);
+      alert("Could not create the library backup.");
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
   if (hasApiKey === false) {
     return (
       <div className="h-screen bg-[#09090b] flex flex-col items-center justify-center p-6 text-center">
@@ -185,6 +621,12 @@ const App: React.FC = () => {
                <span>Switch to Paid API Key</span>
                <ArrowRightIcon className="w-5 h-5" />
              </button>
+             <button
+                onClick={() => handleProviderChange('mock')}
+                className="w-full text-zinc-400 py-3 rounded-2xl text-sm font-medium border border-zinc-800 hover:text-zinc-200 hover:border-zinc-700 transition-all"
+             >
+               Continue Offline with Mock Provider
+             </button>
              <p className="text-[10px] text-zinc-600 uppercase tracking-widest font-mono">
                View <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" className="underline hover:text-zinc-400">billing documentation</a>
              </p>
@@ -203,34 +645,46 @@ const App: React.FC = () => {
            <div className="bg-zinc-100 p-1.5 rounded-lg text-black group-hover:scale-110 transition-transform"><SparklesIcon className="w-5 h-5" /></div>
            <span className="font-bold tracking-tighter text-lg">Eburon AI</span>
         </div>
-        <button onClick={() => importInputRef.current?.click()} className="text-xs font-mono text-zinc-500 hover:text-zinc-200 transition-colors uppercase tracking-widest border border-zinc-800 px-3 py-1.5 rounded-full">Import JSON</button>
+        <div className="flex items-center gap-2">
+          <select
+            value={providerId}
+            onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+            title="Model Provider"
+            className="text-xs font-mono text-zinc-500 hover:text-zinc-200 bg-transparent uppercase tracking-widest border border-zinc-800 px-3 py-1.5 rounded-full focus:outline-none cursor-pointer"
+          >
+            {listProviders().map(p => <option key={p.id} value={p.id} className="bg-zinc-900">{p.label}</option>)}
+          </select>
+          <button onClick={handleBackup} disabled={isBackingUp || history.length === 0} className="text-xs font-mono text-zinc-500 hover:text-zinc-200 transition-colors uppercase tracking-widest border border-zinc-800 px-3 py-1.5 rounded-full disabled:opacity-40">{isBackingUp ? 'Backing Up...' : 'Backup Library'}</button>
+          <button onClick={() => restoreInputRef.current?.click()} className="text-xs font-mono text-zinc-500 hover:text-zinc-200 transition-colors uppercase tracking-widest border border-zinc-800 px-3 py-1.5 rounded-full">Restore</button>
+          <button onClick={() => importInputRef.current?.click()} className="text-xs font-mono text-zinc-500 hover:text-zinc-200 transition-colors uppercase tracking-widest border border-zinc-800 px-3 py-1.5 rounded-full">Import</button>
+        </div>
       </header>
       <main className={`flex-1 relative transition-all duration-700 ${isFocused ? 'opacity-0 scale-95 blur-sm pointer-events-none' : 'opacity-100 scale-100 blur-0'}`}>
         <div className="h-full flex flex-col overflow-y-auto pt-24 pb-40">
            <div className="flex-1 flex flex-col max-w-5xl mx-auto w-full px-4">
               <Hero />
-              <div className="mt-20"><CreationHistory history={history} onSelect={setActiveCreation} /></div>
+              <div className="mt-20"><CreationHistory history={history} onSelect={handleSelectCreation} onUpdate={updateCreation} onDelete={handleDeleteCreations} /></div>
+              <StorageManager history={history} estimate={storageEstimate} error={storageError} onEvict={handleDeleteCreations} />
            </div>
         </div>
       </main>
       <div className={`fixed bottom-0 w-full z-30 transition-all duration-700 pb-8 pt-20 bg-gradient-to-t from-[#09090b] via-[#09090b]/90 to-transparent ${isFocused ? 'opacity-0 translate-y-20' : 'opacity-100 translate-y-0'}`}>
-         <InputArea onGenerate={handleGenerate} onGenerateImage={handleGenerateImage} isGenerating={isGenerating} />
+         <InputArea onGenerate={handleGenerate} onGenerateImage={handleGenerateImage} isGenerating={isGenerating} reviewScan={reviewEnabled} onReviewScanChange={handleReviewEnabledChange} settings={generationSettings} models={getActiveProvider().codeModels} onSettingsChange={setGenerationSettings} />
       </div>
       <input type="file" ref={importInputRef} onChange={(e) => {
-        const file = e.target.files?.[0];
-        if (!file) return;
-        const reader = new FileReader();
-        reader.onload = (event) => {
-          try {
-            const parsed = JSON.parse(event.target?.result as string);
-            const imported = { ...parsed, timestamp: new Date(parsed.timestamp || Date.now()), id: parsed.id || crypto.randomUUID() };
-            setHistory(prev => prev.some(c => c.id === imported.id) ? prev : [imported, ...prev]);
-            setActiveCreation(imported);
-          } catch (err) { console.error("Import error", err); }
-        };
-        reader.readAsText(file);
-      }} accept=".json" className="hidden" />
-      <LivePreview creation={activeCreation} isLoading={isGenerating} isFocused={isFocused} onReset={() => { setActiveCreation(null); setIsGenerating(false); }} />
+        const files: File[] = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length > 0) handleImportFiles(files);
+      }} accept=".json,.zip,application/json,application/zip" multiple className="hidden" />
+      <input type="file" ref={restoreInputRef} onChange={(e) => {
+        const files: File[] = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length > 0) handleImportFiles(files, true);
+      }} accept=".zip,application/zip" className="hidden" />
+      {pendingReview && <DetectionReview detections={pendingReview} onApprove={handleApproveReview} onCancel={handleCancel} />}
+      {variants && <VariantGrid variants={variants} onPromote={handlePromoteVariants} onCancel={handleCancel} />}
+      {importItems && <ImportDialog items={importItems} allowReplace={isRestoring} onConfirm={handleConfirmImport} onCancel={() => setImportItems(null)} />}
+      <LivePreview creation={activeCreation} isLoading={isGenerating} progress={progress} isFocused={isFocused} onReset={() => { handleCancel(); setActiveCreation(null); }} onCancel={handleCancel} onRefine={handleRefine} isRefining={isRefining} onRestoreRevision={handleRestoreRevision} onConsoleLog={handleConsoleLog} autoFix={autoFix} onAutoFixChange={handleAutoFixChange} onFixErrors={handleFixErrors} repairStatus={repairStatus} onSaveHtml={handleSaveHtml} onSaveFiles={handleSaveFiles} onReuseSettings={handleReuseSettings} onUseAlternate={handleUseAlternate} />
       {!isFocused && <div className="fixed bottom-3 right-6 z-40"><a href="https://x.com/ammaar" target="_blank" rel="noopener" className="text-[10px] font-mono text-zinc-700 hover:text-zinc-500 transition-colors">@ammaar</a></div>}
     </div>
   );
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ExclamationTriangleIcon, Square2StackIcon } from '@heroicons/react/24/outline';
+import { CreationAlternate } from './CreationHistory';
+
+interface AlternatesMenuProps {
+  alternates: CreationAlternate[];
+  onUse: (alternateId: string) => void;
+}
+
+/**
+ * Lists the unchosen variants of the run that produced a creation and swaps one in.
+ */
+export const AlternatesMenu: React.FC<AlternatesMenuProps> = ({ alternates, onUse }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const use = (id: string) => {
+    onUse(id);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Alternate Variants"
+        className={`flex items-center gap-1 p-1.5 rounded-md transition-all ${isOpen ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+      >
+        <Square2StackIcon className="w-4 h-4" />
+        <span className="text-[10px] font-mono">{alternates.length}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-50 w-64 bg-zinc-900 border border-zinc-800 rounded-xl p-3 shadow-2xl animate-in fade-in slide-in-from-top-2">
+          <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Alternates</span>
+          <ul className="mt-2 space-y-1">
+            {alternates.map((alternate, i) => (
+              <li key={alternate.id} className="flex items-center justify-between gap-2 text-[11px]">
+                <span className="flex items-center gap-1.5 min-w-0 text-zinc-300">
+                  <span className="truncate">Alternate {i + 1}</span>
+                  {alternate.params && <span className="font-mono text-zinc-500 truncate">seed {alternate.params.seed}</span>}
+                  {alternate.warnings && <ExclamationTriangleIcon className="w-3 h-3 shrink-0 text-amber-400" />}
+                </span>
+                <button onClick={() => use(alternate.id)} className="shrink-0 text-[11px] font-medium text-zinc-400 hover:text-zinc-100 px-2 py-0.5 rounded hover:bg-zinc-800 transition-colors">
+                  Use
+                </button>
+              </li>
+            ))}
+          </ul>
+          <p className="text-[10px] text-zinc-500 mt-3">Using one adds it as a new revision and keeps the current version here.</p>
+        </div>
+      )}
+    </div>
+  );
+};
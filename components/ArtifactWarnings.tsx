@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ExclamationTriangleIcon, ExclamationCircleIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
+import { ArtifactWarning, ArtifactWarningSeverity, countBySeverity } from '../services/htmlAudit';
+
+interface ArtifactWarningsProps {
+  warnings: ArtifactWarning[];
+}
+
+const SEVERITY_ICONS: Record<ArtifactWarningSeverity, React.ReactNode> = {
+  error: <ExclamationCircleIcon className="w-4 h-4 text-red-400 shrink-0" />,
+  warning: <ExclamationTriangleIcon className="w-4 h-4 text-amber-400 shrink-0" />,
+  info: <InformationCircleIcon className="w-4 h-4 text-zinc-500 shrink-0" />,
+};
+
+export const ArtifactWarnings: React.FC<ArtifactWarningsProps> = ({ warnings }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const counts = countBySeverity(warnings);
+  const badge = counts.error > 0 ? 'bg-red-500 text-white' : counts.warning > 0 ? 'bg-amber-500 text-black' : 'bg-zinc-700 text-zinc-200';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Output Checks"
+        className={`relative p-1.5 rounded-md transition-all ${isOpen ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+      >
+        <ExclamationTriangleIcon className="w-4 h-4" />
+        <span className={`absolute -top-0.5 -right-0.5 text-[8px] font-mono rounded-full px-1 ${badge}`}>{warnings.length}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-50 w-[360px] max-w-[90vw] max-h-[60vh] overflow-y-auto bg-zinc-900 border border-zinc-800 rounded-xl p-3 shadow-2xl animate-in fade-in slide-in-from-top-2">
+          <span className="block text-[10px] font-bold text-zinc-400 uppercase tracking-widest mb-2">Output Checks</span>
+          <div className="space-y-2">
+            {warnings.map((warning, idx) => (
+              <div key={idx} className="flex items-start gap-2 p-2 rounded bg-zinc-800/50 border border-zinc-700/30">
+                {SEVERITY_ICONS[warning.severity]}
+                <div className="min-w-0">
+                  <p className="text-xs text-zinc-200">{warning.message}</p>
+                  {warning.details && (
+                    <ul className="mt-1 space-y-0.5">
+                      {warning.details.map(detail => (
+                        <li key={detail} className="text-[10px] font-mono text-zinc-500 truncate" title={detail}>{detail}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
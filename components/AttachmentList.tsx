@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { Bars2Icon, DocumentIcon, ViewfinderCircleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { PdfPageInfo } from '../services/pdf';
+import { IdentificationResult } from '../services/gemini';
+
+export interface Attachment {
+  id: string;
+  file: File;
+  caption: string;
+  previewUrl?: string; // Object URL for image thumbnails
+  pdfPages: PdfPageInfo[] | null; // null while a PDF is being read
+  pdfError: string | null;
+  selectedPages: number[];
+  detections?: IdentificationResult[]; // Scan corrected before generation; unset until scanned
+  scanning: boolean;
+}
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  activeId: string | null; // PDF whose page picker is open
+  onActivate: (id: string) => void;
+  onCaptionChange: (id: string, caption: string) => void;
+  onReorder: (fromId: string, toId: string) => void;
+  onRemove: (id: string) => void;
+  onScan: (id: string) => void;
+}
+
+/**
+ * Attached files in the order they are sent to the model. Chips can be dragged to reorder.
+ */
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, activeId, onActivate, onCaptionChange, onReorder, onRemove, onScan }) => {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+
+  return (
+    <div className="px-4 pt-3 flex gap-2 overflow-x-auto scrollbar-hide">
+      {attachments.map((attachment, index) => {
+        const isPdf = attachment.file.type === 'application/pdf';
+        return (
+          <div
+            key={attachment.id}
+            draggable
+            onDragStart={(e) => {
+              setDraggingId(attachment.id);
+              e.dataTransfer.effectAllowed = 'move';
+              e.dataTransfer.setData('text/plain', attachment.id);
+            }}
+            onDragOver={(e) => {
+              if (!draggingId) return;
+              e.preventDefault();
+              if (draggingId !== attachment.id) onReorder(draggingId, attachment.id);
+            }}
+            onDrop={(e) => draggingId && e.preventDefault()}
+            onDragEnd={() => setDraggingId(null)}
+            onClick={() => isPdf && onActivate(attachment.id)}
+            className={`shrink-0 flex items-center gap-2 bg-zinc-800 border rounded-lg p-2 animate-in fade-in slide-in-from-bottom-2 transition-opacity ${draggingId === attachment.id ? 'opacity-40' : ''} ${isPdf && activeId === attachment.id ? 'border-blue-500/60' : 'border-zinc-700'} ${isPdf ? 'cursor-pointer' : ''}`}
+          >
+            <Bars2Icon className="w-3.5 h-3.5 text-zinc-600 cursor-grab" />
+            <span className="text-[10px] font-mono text-zinc-500">{index + 1}</span>
+            {attachment.previewUrl ? (
+              <div className="w-8 h-8 rounded overflow-hidden bg-zinc-900 border border-zinc-700 shrink-0">
+                <img src={attachment.previewUrl} className="w-full h-full object-cover" alt="Preview" />
+              </div>
+            ) : (
+              <DocumentIcon className="w-5 h-5 text-blue-400 shrink-0" />
+            )}
+            <div className="flex flex-col min-w-0">
+              <div className="flex items-center gap-1.5">
+                <span className="text-xs text-zinc-300 max-w-[120px] truncate">{attachment.file.name}</span>
+                {isPdf && attachment.pdfPages && (
+                  <span className="text-[10px] font-mono text-zinc-500 whitespace-nowrap">{attachment.selectedPages.length}/{attachment.pdfPages.length} pp</span>
+                )}
+              </div>
+              <input
+                value={attachment.caption}
+                onChange={(e) => onCaptionChange(attachment.id, e.target.value)}
+                onClick={(e) => e.stopPropagation()}
+                placeholder="Add a caption"
+                className="w-36 bg-transparent border-none p-0 text-[11px] text-zinc-400 placeholder-zinc-600 focus:ring-0"
+              />
+            </div>
+            {!isPdf && (
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); onScan(attachment.id); }}
+                disabled={attachment.scanning}
+                title={attachment.detections ? 'Correct scan' : 'Scan and correct before generating'}
+                className={`relative p-1 rounded-md transition-colors ${attachment.detections ? 'text-blue-400 hover:bg-zinc-700' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-700'}`}
+              >
+                {attachment.scanning ? (
+                  <div className="w-3.5 h-3.5 border-2 border-zinc-600 border-t-blue-400 rounded-full animate-spin" />
+                ) : (
+                  <ViewfinderCircleIcon className="w-3.5 h-3.5" />
+                )}
+                {attachment.detections && (
+                  <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-blue-500 text-white text-[8px] font-mono leading-[14px] text-center">{attachment.detections.length}</span>
+                )}
+              </button>
+            )}
+            <button type="button" onClick={(e) => { e.stopPropagation(); onRemove(attachment.id); }} className="hover:bg-zinc-700 rounded-full p-0.5 transition-colors">
+              <XMarkIcon className="w-3.5 h-3.5 text-zinc-500" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { DEVICE_PRESETS } from '../services/devices';
+import { DeviceViewport } from './DeviceViewport';
+import { SandboxFrame } from './SandboxFrame';
+
+interface BreakpointCompareProps {
+  html: string;
+  csp: string;
+  namespace?: string;
+}
+
+/**
+ * Renders the same document at every device preset at once.
+ */
+export const BreakpointCompare: React.FC<BreakpointCompareProps> = ({ html, csp, namespace }) => (
+  <div className="w-full h-full flex bg-[#09090b] overflow-x-auto divide-x divide-zinc-800">
+    {DEVICE_PRESETS.map(preset => (
+      <div key={preset.id} className="flex flex-col min-w-[240px]" style={{ flex: `${preset.width} 1 0` }}>
+        <div className="px-3 py-1.5 text-[10px] font-mono uppercase text-zinc-500 border-b border-zinc-800 shrink-0">
+          {preset.label} · {preset.width} × {preset.height}
+        </div>
+        <div className="flex-1 min-h-0">
+          <DeviceViewport size={preset} zoom="fit" bezel={preset.id !== 'desktop'}>
+            <SandboxFrame title={`${preset.label} Preview`} html={html} csp={csp} namespace={namespace} />
+          </DeviceViewport>
+        </div>
+      </div>
+    ))}
+  </div>
+);
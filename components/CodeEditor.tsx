@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { MagnifyingGlassIcon, ChevronUpIcon, ChevronDownIcon, XMarkIcon, ArrowUturnLeftIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { Token, TokenKind, tokenizeSource } from '../services/highlight';
+
+interface CodeEditorProps {
+  path?: string; // File name shown in the header; also picks the highlighter
+  value: string;
+  isDirty: boolean;
+  onChange: (value: string) => void;
+  onSave: () => void;
+  onRevert: () => void;
+}
+
+const TOKEN_COLORS: Record<TokenKind, string> = {
+  plain: 'text-zinc-300',
+  tag: 'text-sky-400',
+  attr: 'text-violet-300',
+  value: 'text-emerald-300',
+  comment: 'text-zinc-600 italic',
+  doctype: 'text-zinc-500',
+  keyword: 'text-pink-400',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  property: 'text-sky-300',
+  punct: 'text-zinc-500',
+};
+
+// Must match the leading-[18px] used by both layers
+const LINE_HEIGHT = 18;
+const MAX_MATCHES = 1000;
+
+interface Range { start: number; end: number }
+
+function findMatches(text: string, query: string): Range[] {
+  if (!query) return [];
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase();
+  const matches: Range[] = [];
+  for (let at = haystack.indexOf(needle); at !== -1 && matches.length < MAX_MATCHES; at = haystack.indexOf(needle, at + needle.length)) {
+    matches.push({ start: at, end: at + needle.length });
+  }
+  return matches;
+}
+
+/**
+ * Splits highlight tokens at search match boundaries so matches can be marked
+ * without losing their syntax color.
+ */
+function renderTokens(tokens: Token[], matches: Range[], current: number): React.ReactNode[] {
+  const nodes: React.ReactNode[] = [];
+  let offset = 0;
+  let m = 0;
+  tokens.forEach((token, t) => {
+    const tokenEnd = offset + token.text.length;
+    let cursor = offset;
+    while (cursor < tokenEnd) {
+      while (m < matches.length && matches[m].end <= cursor) m++;
+      const match = matches[m];
+      const inMatch = match && match.start <= cursor;
+      const stop = Math.min(tokenEnd, inMatch ? match.end : match ? Math.max(match.start, cursor) : tokenEnd);
+      const text = token.text.slice(cursor - offset, stop - offset);
+      const mark = inMatch ? (m === current ? ' bg-amber-400/60 rounded-sm' : ' bg-amber-400/20 rounded-sm') : '';
+      nodes.push(<span key={`${t}-${cursor}`} className={TOKEN_COLORS[token.kind] + mark}>{text}</span>);
+      cursor = stop;
+    }
+    offset = tokenEnd;
+  });
+  return nodes;
+}
+
+export const CodeEditor: React.FC<CodeEditorProps> = ({ path = 'index.html', value, isDirty, onChange, onSave, onRevert }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  const [query, setQuery] = useState('');
+  const [current, setCurrent] = useState(0);
+
+  // Highlighting trails typing slightly on large documents instead of blocking it
+  const deferredValue = useDeferredValue(value);
+  const tokens = useMemo(() => tokenizeSource(path, deferredValue), [path, deferredValue]);
+  const matches = useMemo(() => showSearch ? findMatches(deferredValue, query) : [], [deferredValue, query, showSearch]);
+  const lineCount = useMemo(() => value.split('\n').length, [value]);
+
+  useEffect(() => {
+    setCurrent(0);
+  }, [query]);
+
+  const syncScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = textarea.scrollTop;
+      highlightRef.current.scrollLeft = textarea.scrollLeft;
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = textarea.scrollTop;
+  };
+
+  const revealMatch = (index: number) => {
+    const match = matches[index];
+    const textarea = textareaRef.current;
+    if (!match || !textarea) return;
+    const line = value.slice(0, match.start).split('\n').length - 1;
+    textarea.scrollTop = Math.max(0, line * LINE_HEIGHT - textarea.clientHeight / 3);
+    textarea.setSelectionRange(match.start, match.end);
+    syncScroll();
+  };
+
+  const step = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    const next = (current + direction + matches.length) % matches.length;
+    setCurrent(next);
+    revealMatch(next);
+  };
+
+  const openSearch = () => {
+    setShowSearch(true);
+    const textarea = textareaRef.current;
+    const selected = textarea ? value.slice(textarea.selectionStart, textarea.selectionEnd) : '';
+    if (selected && !selected.includes('\n')) setQuery(selected);
+    setTimeout(() => searchRef.current?.select(), 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const mod = e.metaKey || e.ctrlKey;
+    if (mod && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      onSave();
+    } else if (mod && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      openSearch();
+    } else if (e.key === 'Tab' && !mod) {
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      textarea.setRangeText('  ', textarea.selectionStart, textarea.selectionEnd, 'end');
+      onChange(textarea.value);
+    }
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      step(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      setShowSearch(false);
+      textareaRef.current?.focus();
+    }
+  };
+
+  const layerClass = "absolute inset-0 m-0 p-3 font-mono text-[12px] leading-[18px] whitespace-pre [tab-size:2]";
+
+  return (
+    <div className="flex flex-col h-full min-h-0 bg-[#0c0c0e]">
+      <div className="px-3 py-1.5 flex items-center gap-2 border-b border-zinc-800 shrink-0">
+        <span className="text-[10px] font-mono text-zinc-400 truncate">{path}</span>
+        {isDirty && <span className="w-1.5 h-1.5 rounded-full bg-amber-400" title="Unsaved changes" />}
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={openSearch} title="Search (Ctrl+F)" className="text-zinc-500 hover:text-zinc-300 p-1 rounded-md hover:bg-zinc-800">
+            <MagnifyingGlassIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={onRevert} disabled={!isDirty} title="Discard Changes" className="text-zinc-500 hover:text-zinc-300 disabled:opacity-30 p-1 rounded-md hover:bg-zinc-800">
+            <ArrowUturnLeftIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={onSave} disabled={!isDirty} title="Format & Save (Ctrl+S)" className="flex items-center gap-1 text-[10px] font-bold text-zinc-200 disabled:text-zinc-600 border border-zinc-700 disabled:border-zinc-800 hover:bg-zinc-800 px-2 py-0.5 rounded transition-colors">
+            <CheckIcon className="w-3 h-3" />Save
+          </button>
+        </div>
+      </div>
+
+      {showSearch && (
+        <div className="px-3 py-1.5 flex items-center gap-2 border-b border-zinc-800 shrink-0 bg-zinc-900/60">
+          <input
+            ref={searchRef}
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            placeholder="Find"
+            className="flex-1 bg-black/50 border border-zinc-800 rounded px-2 py-0.5 text-[11px] font-mono text-zinc-200 focus:outline-none focus:border-zinc-600"
+          />
+          <span className="text-[10px] font-mono text-zinc-500 w-16 text-right">
+            {query ? `${matches.length ? current + 1 : 0}/${matches.length}${matches.length === MAX_MATCHES ? '+' : ''}` : ''}
+          </span>
+          <button onClick={() => step(-1)} title="Previous (Shift+Enter)" className="text-zinc-500 hover:text-zinc-300 p-0.5"><ChevronUpIcon className="w-3.5 h-3.5" /></button>
+          <button onClick={() => step(1)} title="Next (Enter)" className="text-zinc-500 hover:text-zinc-300 p-0.5"><ChevronDownIcon className="w-3.5 h-3.5" /></button>
+          <button onClick={() => setShowSearch(false)} className="text-zinc-500 hover:text-zinc-300 p-0.5"><XMarkIcon className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+
+      <div className="flex flex-1 min-h-0">
+        <div ref={gutterRef} className="overflow-hidden shrink-0 py-3 pl-3 pr-2 text-right font-mono text-[12px] leading-[18px] text-zinc-700 select-none border-r border-zinc-900">
+          {Array.from({ length: lineCount }, (_, i) => <div key={i}>{i + 1}</div>)}
+        </div>
+        <div className="relative flex-1 min-w-0">
+          <pre ref={highlightRef} aria-hidden className={`${layerClass} overflow-hidden pointer-events-none`}>
+            {renderTokens(tokens, matches, current)}
+            {'\n'}
+          </pre>
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={e => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onScroll={syncScroll}
+            spellCheck={false}
+            autoCapitalize="off"
+            autoCorrect="off"
+            wrap="off"
+            className={`${layerClass} w-full h-full resize-none bg-transparent text-transparent caret-zinc-100 selection:bg-blue-500/30 focus:outline-none overflow-auto`}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
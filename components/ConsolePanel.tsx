@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { CommandLineIcon, NoSymbolIcon, XMarkIcon, WrenchScrewdriverIcon } from '@heroicons/react/24/outline';
+import { ConsoleEntry, ConsoleLevel, countConsoleIssues } from '../services/console';
+import { AutoFixSettings, MAX_AUTO_FIX_ROUNDS } from '../services/repair';
+
+interface ConsolePanelProps {
+  entries: ConsoleEntry[];
+  onClear: () => void;
+  onClose: () => void;
+  autoFix: AutoFixSettings;
+  onAutoFixChange: (settings: AutoFixSettings) => void;
+  onFix?: () => void; // Unset while a fix can't run, e.g. when viewing an older revision
+}
+
+const LEVEL_STYLES: Record<ConsoleLevel, string> = {
+  log: 'text-zinc-300',
+  info: 'text-blue-300',
+  debug: 'text-zinc-500',
+  warn: 'text-amber-300 bg-amber-500/5',
+  error: 'text-red-300 bg-red-500/5',
+};
+
+type LevelFilter = 'all' | 'warn' | 'error';
+
+export const ConsolePanel: React.FC<ConsolePanelProps> = ({ entries, onClear, onClose, autoFix, onAutoFixChange, onFix }) => {
+  const [filter, setFilter] = useState<LevelFilter>('all');
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const { errors, warnings } = countConsoleIssues(entries);
+
+  const visible = entries.filter(e => filter === 'all' || e.level === filter);
+
+  // Follow new output
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [visible.length]);
+
+  const chipClass = (active: boolean) => `px-2 py-0.5 rounded text-[10px] font-mono uppercase transition-colors ${active ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`;
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 h-2/5 z-20 flex flex-col bg-[#0c0c0e]/95 backdrop-blur border-t border-zinc-800 animate-in slide-in-from-bottom-4 duration-300">
+      <div className="px-3 py-2 flex items-center gap-2 border-b border-zinc-800 shrink-0">
+        <CommandLineIcon className="w-4 h-4 text-zinc-400" />
+        <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest mr-2">Console</span>
+        <button onClick={() => setFilter('all')} className={chipClass(filter === 'all')}>All {entries.length}</button>
+        <button onClick={() => setFilter('error')} className={chipClass(filter === 'error')}>Errors {errors}</button>
+        <button onClick={() => setFilter('warn')} className={chipClass(filter === 'warn')}>Warnings {warnings}</button>
+        <div className="ml-auto flex items-center gap-1">
+          <label title="Send runtime errors back to the model automatically" className="flex items-center gap-1.5 text-[10px] font-mono uppercase text-zinc-500 mr-1 cursor-pointer">
+            <input type="checkbox" checked={autoFix.enabled} onChange={e => onAutoFixChange({ ...autoFix, enabled: e.target.checked })} className="accent-emerald-500" />
+            Auto-fix
+          </label>
+          <select
+            value={autoFix.maxRounds}
+            onChange={e => onAutoFixChange({ ...autoFix, maxRounds: Number(e.target.value) })}
+            title="Repair rounds"
+            className="bg-zinc-900 border border-zinc-800 rounded text-[10px] font-mono text-zinc-400 px-1 py-0.5 mr-2 focus:outline-none"
+          >
+            {Array.from({ length: MAX_AUTO_FIX_ROUNDS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}×</option>)}
+          </select>
+          {onFix && errors > 0 && (
+            <button onClick={onFix} className="flex items-center gap-1 text-[10px] font-bold text-emerald-300 border border-emerald-500/30 hover:bg-emerald-500/10 px-2 py-0.5 rounded mr-1 transition-colors">
+              <WrenchScrewdriverIcon className="w-3 h-3" />Fix Errors
+            </button>
+          )}
+          <button onClick={onClear} title="Clear Console" className="text-zinc-500 hover:text-zinc-300 p-1 rounded-md hover:bg-zinc-800">
+            <NoSymbolIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={onClose} title="Hide Console" className="text-zinc-500 hover:text-zinc-300 p-1 rounded-md hover:bg-zinc-800">
+            <XMarkIcon className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto font-mono text-[11px]">
+        {visible.length === 0 ? (
+          <p className="text-zinc-600 text-center mt-6">No output.</p>
+        ) : visible.map((entry, idx) => (
+          <div key={idx} className={`flex gap-3 px-3 py-1 border-b border-zinc-900 ${LEVEL_STYLES[entry.level]}`}>
+            <span className="text-zinc-600 shrink-0">{new Date(entry.timestamp).toLocaleTimeString([], { hour12: false })}</span>
+            {entry.origin !== 'console' && <span className="shrink-0 text-[9px] uppercase px-1 rounded bg-red-500/10 text-red-400 self-start mt-0.5">{entry.origin}</span>}
+            <pre className="whitespace-pre-wrap break-all flex-1">{entry.message}</pre>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -3,75 +3,351 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import { ClockIcon, ArrowRightIcon, DocumentIcon, PhotoIcon } from '@heroicons/react/24/outline';
-import { IdentificationResult } from '../services/gemini';
+import React, { useState, useMemo, useEffect } from 'react';
+import { ClockIcon, DocumentIcon, PhotoIcon, MagnifyingGlassIcon, StarIcon, TrashIcon, PencilSquareIcon, CheckIcon, XMarkIcon, SparklesIcon, ChatBubbleBottomCenterTextIcon } from '@heroicons/react/24/outline';
+import { StarIcon as StarSolidIcon, MapPinIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid';
+import { IdentificationResult, RefinementMessage } from '../services/gemini';
+import { AssetRef } from '../services/storage';
+import { ConsoleEntry, countConsoleIssues } from '../services/console';
+import { ArtifactWarning } from '../services/htmlAudit';
+import { StyleSnapshot } from '../services/styles';
+import { CodeParams, GenerationParams } from '../services/generationSettings';
+import { ArtifactTarget } from '../services/project';
+import { ProjectFile } from '../services/vfs';
+import { filterCreations, getSourceKind, collectTags, parseTags, EMPTY_FILTERS, LibraryFilters } from '../services/library';
+
+export type RevisionSource = 'generate' | 'refine' | 'restore' | 'repair' | 'edit';
+
+export interface CreationRevision {
+  id: string;
+  html: string;
+  timestamp: number; // Epoch ms
+  source: RevisionSource;
+  note?: string;
+  files?: ProjectFile[]; // Project sources `html` was built from
+}
+
+export type SourceKind = 'image' | 'pdf' | 'text' | 'flux';
+
+/** One file the user attached to a generation. */
+export interface CreationInput {
+  id: string;
+  name: string; // File name as uploaded
+  mimeType: string;
+  caption?: string;
+  pages?: number[]; // PDF pages sent to the model, 1-based
+  data?: string; // Base64 data URL, unset until loaded when `asset` is present
+  asset?: AssetRef;
+}
+
+/** A variant generated in the same run that was not promoted on its own. */
+export interface CreationAlternate {
+  id: string;
+  html: string;
+  target?: ArtifactTarget; // Set together with `files`, as on the creation
+  files?: ProjectFile[];
+  params?: CodeParams;
+  warnings?: ArtifactWarning[];
+}
 
 export interface Creation {
   id: string;
   name: string;
-  html: string;
-  originalImage?: string; // Base64 data URL
+  prompt?: string; // Text the user submitted, if any
+  source?: SourceKind;
+  html: string; // For projects, the preview document built from `files`
+  target?: ArtifactTarget; // Set together with `files`; plain documents leave both unset
+  files?: ProjectFile[];
+  originalImage?: string; // Base64 data URL, unset until loaded when `originalAsset` is present
+  originalAsset?: AssetRef; // Input asset kept as a Blob in IndexedDB
+  pages?: number[]; // PDF pages the artifact was generated from, 1-based
+  inputs?: CreationInput[]; // Every attached file in the order it was sent; the first mirrors `originalImage`
   timestamp: Date;
   identifications?: IdentificationResult[];
+  approvedIdentifications?: IdentificationResult[]; // What the user approved in review and sent as context; unset when not reviewed
+  refinements?: RefinementMessage[]; // Chat thread of follow-up edits, oldest first
+  revisions?: CreationRevision[]; // Oldest first; the last entry always matches `html`
+  tags?: string[];
+  pinned?: boolean;
+  favorite?: boolean;
+  consoleLog?: ConsoleEntry[]; // Output of the latest revision's most recent preview run
+  warnings?: ArtifactWarning[]; // Static checks on the current `html`
+  style?: StyleSnapshot; // Preset the artifact was generated with
+  generation?: GenerationParams; // Exact model, sampling and image parameters of the original run
+  alternates?: CreationAlternate[]; // Unchosen variants of the same run
 }
 
 interface CreationHistoryProps {
   history: Creation[];
   onSelect: (creation: Creation) => void;
+  onUpdate: (creation: Creation) => void;
+  onDelete: (ids: string[]) => void;
 }
 
-export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect }) => {
+const SOURCE_FILTERS: { kind: SourceKind; label: string }[] = [
+  { kind: 'image', label: 'Image' },
+  { kind: 'pdf', label: 'PDF' },
+  { kind: 'text', label: 'Text' },
+  { kind: 'flux', label: 'FLUX' },
+];
+
+const SourceIcon = ({ kind }: { kind: SourceKind }) => {
+  const className = "w-4 h-4 text-zinc-400";
+  switch (kind) {
+    case 'image': return <PhotoIcon className={className} />;
+    case 'flux': return <SparklesIcon className={className} />;
+    case 'text': return <ChatBubbleBottomCenterTextIcon className={className} />;
+    default: return <DocumentIcon className={className} />;
+  }
+};
+
+interface CreationCardProps {
+  item: Creation;
+  isSelecting: boolean;
+  isSelected: boolean;
+  onOpen: () => void;
+  onToggleSelected: () => void;
+  onUpdate: (creation: Creation) => void;
+  onDelete: () => void;
+  onTagClick: (tag: string) => void;
+}
+
+const CreationCard: React.FC<CreationCardProps> = ({ item, isSelecting, isSelected, onOpen, onToggleSelected, onUpdate, onDelete, onTagClick }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftName, setDraftName] = useState(item.name);
+  const [draftTags, setDraftTags] = useState('');
+  const runtimeErrors = countConsoleIssues(item.consoleLog).errors;
+
+  const startEditing = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDraftName(item.name);
+    setDraftTags((item.tags || []).join(', '));
+    setIsEditing(true);
+  };
+
+  const saveEdits = () => {
+    onUpdate({ ...item, name: draftName.trim() || item.name, tags: parseTags(draftTags) });
+    setIsEditing(false);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') saveEdits();
+    if (e.key === 'Escape') setIsEditing(false);
+  };
+
+  const stop = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action();
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex flex-col gap-2 p-3 h-32 bg-zinc-900 border border-zinc-600 rounded-lg">
+        <input
+          autoFocus
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onKeyDown={handleEditKeyDown}
+          placeholder="Name"
+          className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:border-zinc-500"
+        />
+        <input
+          value={draftTags}
+          onChange={(e) => setDraftTags(e.target.value)}
+          onKeyDown={handleEditKeyDown}
+          placeholder="Tags, comma separated"
+          className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-[11px] font-mono text-zinc-300 focus:outline-none focus:border-zinc-500"
+        />
+        <div className="mt-auto flex justify-end gap-1">
+          <button onClick={() => setIsEditing(false)} className="p-1 text-zinc-500 hover:text-zinc-300 rounded hover:bg-zinc-800"><XMarkIcon className="w-3.5 h-3.5" /></button>
+          <button onClick={saveEdits} className="p-1 text-green-400 hover:text-green-300 rounded hover:bg-zinc-800"><CheckIcon className="w-3.5 h-3.5" /></button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={isSelecting ? onToggleSelected : onOpen}
+      onKeyDown={(e) => { if (e.key === 'Enter') (isSelecting ? onToggleSelected : onOpen)(); }}
+      className={`group relative flex flex-col text-left h-32 bg-zinc-900/50 hover:bg-zinc-800 border rounded-lg transition-all duration-200 overflow-hidden cursor-pointer ${isSelected ? 'border-blue-500 ring-1 ring-blue-500/40' : 'border-zinc-800 hover:border-zinc-600'}`}
+    >
+      <div className="p-4 flex flex-col h-full">
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-1.5">
+            {isSelecting ? (
+              <div className={`w-4 h-4 rounded border flex items-center justify-center ${isSelected ? 'bg-blue-500 border-blue-500' : 'border-zinc-600'}`}>
+                {isSelected && <CheckIcon className="w-3 h-3 text-white" />}
+              </div>
+            ) : (
+              <div className="p-1.5 bg-zinc-800 rounded group-hover:bg-zinc-700 transition-colors border border-zinc-700/50">
+                <SourceIcon kind={getSourceKind(item)} />
+              </div>
+            )}
+            {item.pinned && <MapPinIcon className="w-3 h-3 text-amber-400" />}
+            {item.favorite && <StarSolidIcon className="w-3 h-3 text-yellow-400" />}
+            {runtimeErrors > 0 && (
+              <span title={`${runtimeErrors} runtime error${runtimeErrors === 1 ? '' : 's'} in the last preview`} className="flex items-center gap-0.5 text-[9px] font-mono text-red-400">
+                <ExclamationTriangleIcon className="w-3 h-3" />{runtimeErrors}
+              </span>
+            )}
+          </div>
+          {!isSelecting && (
+            <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={stop(() => onUpdate({ ...item, pinned: !item.pinned }))} title={item.pinned ? "Unpin" : "Pin"} className={`p-1 rounded hover:bg-zinc-700 ${item.pinned ? 'text-amber-400' : 'text-zinc-500 hover:text-zinc-200'}`}><MapPinIcon className="w-3 h-3" /></button>
+              <button onClick={stop(() => onUpdate({ ...item, favorite: !item.favorite }))} title={item.favorite ? "Remove Favorite" : "Favorite"} className={`p-1 rounded hover:bg-zinc-700 ${item.favorite ? 'text-yellow-400' : 'text-zinc-500 hover:text-zinc-200'}`}><StarIcon className="w-3 h-3" /></button>
+              <button onClick={startEditing} title="Rename & Tag" className="p-1 rounded hover:bg-zinc-700 text-zinc-500 hover:text-zinc-200"><PencilSquareIcon className="w-3 h-3" /></button>
+              <button onClick={stop(onDelete)} title="Delete" className="p-1 rounded hover:bg-zinc-700 text-zinc-500 hover:text-red-400"><TrashIcon className="w-3 h-3" /></button>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-auto">
+          <h3 className="text-sm font-medium text-zinc-300 group-hover:text-white truncate">
+            {item.name}
+          </h3>
+          <div className="flex items-center justify-between mt-1 gap-2">
+            <div className="flex items-center gap-1 overflow-hidden">
+              {(item.tags || []).slice(0, 3).map(tag => (
+                <button key={tag} onClick={stop(() => onTagClick(tag))} className="text-[9px] font-mono text-zinc-500 bg-zinc-800 hover:text-zinc-300 px-1.5 py-0.5 rounded truncate">#{tag}</button>
+              ))}
+            </div>
+            <span className="text-[10px] font-mono text-zinc-600 group-hover:text-zinc-400 shrink-0">
+              {item.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const CreationHistory: React.FC<CreationHistoryProps> = ({ history, onSelect, onUpdate, onDelete }) => {
+  const [filters, setFilters] = useState<LibraryFilters>(EMPTY_FILTERS);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const visible = useMemo(() => filterCreations(history, filters), [history, filters]);
+  const allTags = useMemo(() => collectTags(history), [history]);
+
+  // Only what the filters show stays selected, so bulk delete never removes hidden cards
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const next = new Set(visible.filter(c => prev.has(c.id)).map(c => c.id));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [visible]);
+
   if (history.length === 0) return null;
 
+  const toggleSource = (kind: SourceKind) => {
+    setFilters(f => ({ ...f, sources: f.sources.includes(kind) ? f.sources.filter(k => k !== kind) : [...f.sources, kind] }));
+  };
+
+  const toggleTag = (tag: string) => {
+    setFilters(f => ({ ...f, tags: f.tags.includes(tag) ? f.tags.filter(t => t !== tag) : [...f.tags, tag] }));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkDelete = () => {
+    if (selectedIds.size === 0) return;
+    if (!confirm(`Delete ${selectedIds.size} creation${selectedIds.size === 1 ? '' : 's'}? This cannot be undone.`)) return;
+    onDelete([...selectedIds]);
+    exitSelection();
+  };
+
+  const handleDelete = (item: Creation) => {
+    if (confirm(`Delete "${item.name}"? This cannot be undone.`)) onDelete([item.id]);
+  };
+
+  const chipClass = (active: boolean) => `text-[10px] font-mono uppercase tracking-wider px-2 py-1 rounded-full border transition-colors ${active ? 'border-zinc-500 bg-zinc-800 text-zinc-100' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`;
+
   return (
     <div className="w-full animate-in fade-in slide-in-from-bottom-8 duration-700">
       <div className="flex items-center space-x-3 mb-3 px-2">
         <ClockIcon className="w-4 h-4 text-zinc-500" />
         <h2 className="text-xs font-bold uppercase tracking-wider text-zinc-500">Archive</h2>
+        <span className="text-[10px] font-mono text-zinc-600">{visible.length}/{history.length}</span>
         <div className="h-px flex-1 bg-zinc-800"></div>
-      </div>
-      
-      {/* Horizontal Scroll Container for Compact Layout */}
-      <div className="flex overflow-x-auto space-x-4 pb-2 px-2 scrollbar-hide">
-        {history.map((item) => {
-          const isPdf = item.originalImage?.startsWith('data:application/pdf');
-          return (
+        {isSelecting ? (
+          <div className="flex items-center gap-2">
+            <button onClick={() => setSelectedIds(new Set(visible.map(c => c.id)))} className="text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-300">All</button>
             <button
-              key={item.id}
-              onClick={() => onSelect(item)}
-              className="group flex-shrink-0 relative flex flex-col text-left w-44 h-28 bg-zinc-900/50 hover:bg-zinc-800 border border-zinc-800 hover:border-zinc-600 rounded-lg transition-all duration-200 overflow-hidden"
+              onClick={handleBulkDelete}
+              disabled={selectedIds.size === 0}
+              className="flex items-center gap-1 text-[10px] font-mono uppercase tracking-wider text-red-300 border border-red-500/30 px-2 py-1 rounded-full hover:bg-red-500/10 disabled:opacity-30"
             >
-              <div className="p-4 flex flex-col h-full">
-                <div className="flex items-start justify-between mb-2">
-                  <div className="p-1.5 bg-zinc-800 rounded group-hover:bg-zinc-700 transition-colors border border-zinc-700/50">
-                      {isPdf ? (
-                          <DocumentIcon className="w-4 h-4 text-zinc-400" />
-                      ) : item.originalImage ? (
-                          <PhotoIcon className="w-4 h-4 text-zinc-400" />
-                      ) : (
-                          <DocumentIcon className="w-4 h-4 text-zinc-400" />
-                      )}
-                  </div>
-                  <span className="text-[10px] font-mono text-zinc-600 group-hover:text-zinc-400">
-                    {item.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                  </span>
-                </div>
-                
-                <div className="mt-auto">
-                  <h3 className="text-sm font-medium text-zinc-300 group-hover:text-white truncate">
-                    {item.name}
-                  </h3>
-                  <div className="flex items-center space-x-1 mt-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                    <span className="text-[10px] text-blue-400">Restore</span>
-                    <ArrowRightIcon className="w-3 h-3 text-blue-400" />
-                  </div>
-                </div>
-              </div>
+              <TrashIcon className="w-3 h-3" /> Delete {selectedIds.size}
             </button>
-          );
-        })}
+            <button onClick={exitSelection} className="text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-300">Done</button>
+          </div>
+        ) : (
+          <button onClick={() => setIsSelecting(true)} className="text-[10px] font-mono uppercase tracking-wider text-zinc-500 hover:text-zinc-300">Select</button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 px-2">
+        <div className="flex items-center gap-2 flex-1 min-w-[180px] bg-zinc-900/50 border border-zinc-800 focus-within:border-zinc-700 rounded-full px-3 py-1.5">
+          <MagnifyingGlassIcon className="w-3.5 h-3.5 text-zinc-500" />
+          <input
+            value={filters.query}
+            onChange={(e) => setFilters(f => ({ ...f, query: e.target.value }))}
+            placeholder="Search names, prompts, tags, detections..."
+            className="flex-1 bg-transparent border-none focus:outline-none text-xs text-zinc-200 placeholder-zinc-600"
+          />
+          {filters.query && (
+            <button onClick={() => setFilters(f => ({ ...f, query: '' }))} className="text-zinc-500 hover:text-zinc-300"><XMarkIcon className="w-3 h-3" /></button>
+          )}
+        </div>
+        {SOURCE_FILTERS.map(({ kind, label }) => (
+          <button key={kind} onClick={() => toggleSource(kind)} className={chipClass(filters.sources.includes(kind))}>{label}</button>
+        ))}
+        <button onClick={() => setFilters(f => ({ ...f, favoritesOnly: !f.favoritesOnly }))} className={chipClass(filters.favoritesOnly)} title="Favorites Only">
+          <StarIcon className="w-3 h-3" />
+        </button>
       </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-3 px-2">
+          {allTags.map(tag => (
+            <button key={tag} onClick={() => toggleTag(tag)} className={`text-[10px] font-mono px-2 py-0.5 rounded-full transition-colors ${filters.tags.includes(tag) ? 'bg-blue-500/20 text-blue-300' : 'bg-zinc-900 text-zinc-500 hover:text-zinc-300'}`}>#{tag}</button>
+          ))}
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-xs text-zinc-600 text-center py-8">No creations match these filters.</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 max-h-[26rem] overflow-y-auto pb-2 px-2 scrollbar-hide">
+          {visible.map((item) => (
+            <CreationCard
+              key={item.id}
+              item={item}
+              isSelecting={isSelecting}
+              isSelected={selectedIds.has(item.id)}
+              onOpen={() => onSelect(item)}
+              onToggleSelected={() => toggleSelected(item.id)}
+              onUpdate={onUpdate}
+              onDelete={() => handleDelete(item)}
+              onTagClick={toggleTag}
+            />
+          ))}
+        </div>
+      )}
       <style>{`
         .scrollbar-hide::-webkit-scrollbar {
             display: none;
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { BoundingBox, IdentificationResult } from '../services/gemini';
+import { DetectionOverlay } from './DetectionOverlay';
+
+interface DetectionEditorProps {
+  title: string;
+  image: string; // Data or object URL of the scanned image
+  detections: IdentificationResult[];
+  onChange: (detections: IdentificationResult[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Corrects a scan before generation: relabel or remove detections, and drag
+ * on the image to add elements the scan missed.
+ */
+export const DetectionEditor: React.FC<DetectionEditorProps> = ({ title, image, detections, onChange, onClose }) => {
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+
+  const update = (index: number, patch: Partial<IdentificationResult>) => {
+    onChange(detections.map((d, i) => i === index ? { ...d, ...patch } : d));
+  };
+
+  const remove = (index: number) => {
+    setHighlighted(null);
+    onChange(detections.filter((_, i) => i !== index));
+  };
+
+  const add = (box: BoundingBox) => {
+    onChange([...detections, { label: 'New Element', confidence: 1, description: 'Added manually.', type: 'ui_component', box }]);
+    setHighlighted(detections.length);
+  };
+
+  const boxes = detections.flatMap((d, key) => d.box ? [{ key, label: d.label, box: d.box }] : []);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="w-full max-w-5xl h-[80vh] flex flex-col bg-[#0E0E10] border border-zinc-800 rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <div className="min-w-0">
+            <h2 className="text-sm font-bold text-zinc-100 truncate">Correct Scan · {title}</h2>
+            <p className="text-[11px] font-mono text-zinc-500 mt-0.5">
+              {detections.length} elements · Drag on the image to add one the scan missed
+            </p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 p-1 rounded-md hover:bg-zinc-800"><XMarkIcon className="w-4 h-4" /></button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+          <div className="flex-1 min-h-0 p-6 bg-[#0c0c0e]">
+            <DetectionOverlay
+              src={image}
+              alt={title}
+              boxes={boxes}
+              highlighted={highlighted}
+              onHighlight={setHighlighted}
+              onDraw={add}
+              imageClassName="rounded border border-zinc-800/50"
+            />
+          </div>
+
+          <div className="md:w-72 shrink-0 overflow-y-auto border-t md:border-t-0 md:border-l border-zinc-800 divide-y divide-zinc-800/60">
+            {detections.length === 0 && (
+              <p className="px-4 py-6 text-xs text-zinc-500 text-center">No elements. Drag on the image to add one.</p>
+            )}
+            {detections.map((detection, index) => (
+              <div
+                key={index}
+                onMouseEnter={() => setHighlighted(index)}
+                onMouseLeave={() => setHighlighted(null)}
+                className={`flex items-center gap-2 px-4 py-2 transition-colors ${highlighted === index ? 'bg-blue-500/10' : ''}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <input
+                    value={detection.label}
+                    onChange={(e) => update(index, { label: e.target.value })}
+                    className="w-full bg-transparent border-none p-0 text-xs font-bold text-zinc-100 focus:ring-0"
+                  />
+                  <span className="text-[9px] text-zinc-600 uppercase">{detection.type.replace('_', ' ')}{detection.box ? '' : ' · no box'}</span>
+                </div>
+                <button onClick={() => remove(index)} title="Remove" className="p-1 rounded text-zinc-600 hover:text-red-400 hover:bg-zinc-800">
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end px-5 py-4 border-t border-zinc-800">
+          <button onClick={onClose} className="text-xs font-bold bg-white text-black hover:bg-zinc-200 px-4 py-2 rounded-lg transition-colors">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
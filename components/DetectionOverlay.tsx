@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { BoundingBox } from '../services/gemini';
+import { boxFromPoints } from '../services/detections';
+
+export interface OverlayBox {
+  key: number; // Index into the caller's detection list
+  label: string;
+  box: BoundingBox;
+}
+
+interface DetectionOverlayProps {
+  src: string;
+  alt: string;
+  boxes: OverlayBox[];
+  highlighted: number | null;
+  onHighlight: (key: number | null) => void;
+  onDraw?: (box: BoundingBox) => void; // Enables dragging out new boxes
+  imageClassName?: string;
+}
+
+interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * An image with labeled detection boxes drawn over it. The layer tracks the
+ * image's rendered bounds, so it stays aligned however the image is scaled.
+ */
+export const DetectionOverlay: React.FC<DetectionOverlayProps> = ({ src, alt, boxes, highlighted, onHighlight, onDraw, imageClassName = '' }) => {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const [rect, setRect] = useState<Rect | null>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+
+  useEffect(() => {
+    const image = imageRef.current;
+    if (!image) return;
+    const measure = () => setRect({ left: image.offsetLeft, top: image.offsetTop, width: image.offsetWidth, height: image.offsetHeight });
+    const observer = new ResizeObserver(measure);
+    observer.observe(image);
+    return () => observer.disconnect();
+  }, [src]);
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - bounds.left) / bounds.width, y: (e.clientY - bounds.top) / bounds.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!onDraw || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(toPoint(e));
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragStart) setDraft(boxFromPoints(dragStart, toPoint(e)));
+  };
+
+  const handlePointerUp = () => {
+    if (draft) onDraw?.(draft);
+    setDragStart(null);
+    setDraft(null);
+  };
+
+  const toStyle = (box: BoundingBox): React.CSSProperties => ({
+    left: `${box.x * 100}%`,
+    top: `${box.y * 100}%`,
+    width: `${box.width * 100}%`,
+    height: `${box.height * 100}%`,
+  });
+
+  return (
+    <div className="relative w-full h-full flex items-center justify-center">
+      <img ref={imageRef} src={src} alt={alt} draggable={false} className={`max-w-full max-h-full object-contain select-none ${imageClassName}`} />
+      {rect && (
+        <div
+          className={`absolute ${onDraw ? 'cursor-crosshair touch-none' : ''}`}
+          style={rect}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={() => !dragStart && onHighlight(null)}
+        >
+          {boxes.map(({ key, label, box }) => {
+            const isHighlighted = highlighted === key;
+            return (
+              <div
+                key={key}
+                style={toStyle(box)}
+                onPointerEnter={() => onHighlight(key)}
+                onPointerLeave={() => onHighlight(null)}
+                className={`absolute border rounded-sm transition-colors ${isHighlighted ? 'border-blue-400 bg-blue-400/15 z-10' : highlighted !== null ? 'border-blue-400/25' : 'border-blue-400/70'}`}
+              >
+                <span className={`absolute -top-4 left-0 max-w-full truncate px-1 rounded-sm text-[9px] font-mono leading-4 pointer-events-none ${isHighlighted ? 'bg-blue-500 text-white' : 'bg-black/70 text-blue-200'}`}>
+                  {label}
+                </span>
+              </div>
+            );
+          })}
+          {draft && <div style={toStyle(draft)} className="absolute border border-dashed border-white bg-white/10 pointer-events-none" />}
+        </div>
+      )}
+    </div>
+  );
+};
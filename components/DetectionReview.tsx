@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { IdentificationResult } from '../services/gemini';
+import { DETECTION_TYPES } from '../services/detections';
+
+interface DetectionReviewProps {
+  detections: IdentificationResult[];
+  onApprove: (approved: IdentificationResult[]) => void;
+  onCancel: () => void;
+}
+
+interface ReviewItem {
+  key: number;
+  detection: IdentificationResult;
+  included: boolean;
+}
+
+/**
+ * Checklist shown between the scan and generation. Only included elements with a
+ * label are sent to the model as context.
+ */
+export const DetectionReview: React.FC<DetectionReviewProps> = ({ detections, onApprove, onCancel }) => {
+  const [items, setItems] = useState<ReviewItem[]>(() => detections.map((detection, key) => ({ key, detection, included: true })));
+  const [nextKey, setNextKey] = useState(detections.length);
+
+  const update = (key: number, patch: Partial<ReviewItem>) => {
+    setItems(prev => prev.map(item => item.key === key ? { ...item, ...patch } : item));
+  };
+
+  const updateDetection = (key: number, patch: Partial<IdentificationResult>) => {
+    setItems(prev => prev.map(item => item.key === key ? { ...item, detection: { ...item.detection, ...patch } } : item));
+  };
+
+  const addElement = () => {
+    setItems(prev => [...prev, { key: nextKey, included: true, detection: { label: '', confidence: 1, description: '', type: 'ui_component' } }]);
+    setNextKey(k => k + 1);
+  };
+
+  const approved = items
+    .filter(item => item.included && item.detection.label.trim())
+    .map(({ detection }) => ({ ...detection, label: detection.label.trim(), description: detection.description.trim() }));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="w-full max-w-2xl max-h-[80vh] flex flex-col bg-[#0E0E10] border border-zinc-800 rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <div>
+            <h2 className="text-sm font-bold text-zinc-100">Review Identified Components</h2>
+            <p className="text-[11px] font-mono text-zinc-500 mt-0.5">
+              {approved.length} of {items.length} will be sent as context
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-zinc-500 hover:text-zinc-300 p-1 rounded-md hover:bg-zinc-800"><XMarkIcon className="w-4 h-4" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-zinc-800/60">
+          {items.length === 0 && (
+            <p className="px-5 py-6 text-xs text-zinc-500 text-center">The scan found nothing. Add the elements the artifact should include.</p>
+          )}
+          {items.map(({ key, detection, included }) => (
+            <div key={key} className={`px-5 py-3 flex items-start gap-3 transition-opacity ${included ? '' : 'opacity-40'}`}>
+              <input
+                type="checkbox"
+                checked={included}
+                onChange={(e) => update(key, { included: e.target.checked })}
+                className="mt-1 rounded border-zinc-700 bg-zinc-900 text-blue-500 focus:ring-0 focus:ring-offset-0"
+              />
+              <div className="flex-1 min-w-0 space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <input
+                    value={detection.label}
+                    onChange={(e) => updateDetection(key, { label: e.target.value })}
+                    placeholder="Element name"
+                    autoFocus={key >= detections.length}
+                    className="flex-1 min-w-0 bg-transparent border-none p-0 text-xs font-bold text-zinc-100 placeholder-zinc-600 focus:ring-0"
+                  />
+                  <select
+                    value={detection.type}
+                    onChange={(e) => updateDetection(key, { type: e.target.value })}
+                    className="bg-zinc-900 border border-zinc-800 rounded-md text-[10px] text-zinc-400 py-0.5 pl-2 pr-6 focus:ring-0 focus:border-zinc-600"
+                  >
+                    {[...new Set([...DETECTION_TYPES, detection.type])].map(type => <option key={type} value={type}>{type.replace('_', ' ')}</option>)}
+                  </select>
+                </div>
+                <textarea
+                  value={detection.description}
+                  onChange={(e) => updateDetection(key, { description: e.target.value })}
+                  placeholder="What it is and how it should behave"
+                  rows={2}
+                  className="w-full bg-zinc-900/60 border border-zinc-800 rounded-md text-[11px] text-zinc-300 placeholder-zinc-600 px-2 py-1.5 resize-none focus:ring-0 focus:border-zinc-600"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-5 py-4 border-t border-zinc-800">
+          <button onClick={addElement} className="flex items-center gap-1.5 text-xs font-medium text-zinc-400 hover:text-zinc-200 px-2 py-2 rounded-lg">
+            <PlusIcon className="w-3.5 h-3.5" /> Add Missing Element
+          </button>
+          <div className="flex items-center gap-2">
+            <button onClick={onCancel} className="text-xs font-medium text-zinc-400 hover:text-zinc-200 px-4 py-2 rounded-lg">Cancel</button>
+            <button
+              onClick={() => onApprove(approved)}
+              className="text-xs font-bold bg-white text-black hover:bg-zinc-200 px-4 py-2 rounded-lg transition-colors"
+            >
+              Generate with {approved.length} {approved.length === 1 ? 'Element' : 'Elements'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { ArrowsPointingOutIcon, DevicePhoneMobileIcon, DeviceTabletIcon, ComputerDesktopIcon, AdjustmentsHorizontalIcon, ArrowPathIcon, Squares2X2Icon } from '@heroicons/react/24/outline';
+import { DeviceId, ViewportSettings, ZOOM_LEVELS, ZoomLevel, MIN_VIEWPORT, MAX_VIEWPORT, clampViewport, getViewportSize } from '../services/devices';
+
+interface DeviceToolbarProps {
+  settings: ViewportSettings;
+  onChange: (settings: ViewportSettings) => void;
+  compare: boolean;
+  onCompareChange: (compare: boolean) => void;
+}
+
+const DEVICE_BUTTONS: { id: DeviceId; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { id: 'fill', label: 'Fill Pane', icon: ArrowsPointingOutIcon },
+  { id: 'phone', label: 'Phone', icon: DevicePhoneMobileIcon },
+  { id: 'tablet', label: 'Tablet', icon: DeviceTabletIcon },
+  { id: 'desktop', label: 'Desktop', icon: ComputerDesktopIcon },
+  { id: 'custom', label: 'Custom Size', icon: AdjustmentsHorizontalIcon },
+];
+
+export const DeviceToolbar: React.FC<DeviceToolbarProps> = ({ settings, onChange, compare, onCompareChange }) => {
+  const size = getViewportSize(settings);
+  const update = (patch: Partial<ViewportSettings>) => onChange({ ...settings, ...patch });
+
+  const buttonClass = (active: boolean) => `p-1.5 rounded-md transition-all ${active ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`;
+  const inputClass = "w-16 bg-black/50 border border-zinc-800 rounded px-1.5 py-0.5 text-[11px] font-mono text-zinc-300 text-center focus:outline-none focus:border-zinc-600";
+
+  return (
+    <div className="bg-[#0c0c0e] border-b border-zinc-800 px-4 py-1.5 flex items-center gap-3 shrink-0 animate-in slide-in-from-top-2 duration-300 overflow-x-auto scrollbar-hide">
+      <div className="flex items-center gap-0.5">
+        {DEVICE_BUTTONS.map(({ id, label, icon: Icon }) => (
+          <button key={id} onClick={() => { onCompareChange(false); update({ device: id }); }} title={label} className={buttonClass(!compare && settings.device === id)}>
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+
+      {!compare && settings.device === 'custom' && (
+        <div className="flex items-center gap-1 text-zinc-600 text-[11px] font-mono">
+          <input
+            type="number"
+            min={MIN_VIEWPORT}
+            max={MAX_VIEWPORT}
+            value={settings.customWidth}
+            onChange={e => update({ customWidth: Number(e.target.value) })}
+            onBlur={() => update({ customWidth: clampViewport(settings.customWidth) })}
+            className={inputClass}
+          />
+          ×
+          <input
+            type="number"
+            min={MIN_VIEWPORT}
+            max={MAX_VIEWPORT}
+            value={settings.customHeight}
+            onChange={e => update({ customHeight: Number(e.target.value) })}
+            onBlur={() => update({ customHeight: clampViewport(settings.customHeight) })}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {!compare && size && (
+        <>
+          {settings.device !== 'custom' && <span className="text-[10px] font-mono text-zinc-500">{size.width} × {size.height}</span>}
+          <button onClick={() => update({ rotated: !settings.rotated })} title="Rotate" className={buttonClass(settings.rotated)}>
+            <ArrowPathIcon className="w-4 h-4" />
+          </button>
+          <select
+            value={String(settings.zoom)}
+            onChange={e => update({ zoom: (e.target.value === 'fit' ? 'fit' : Number(e.target.value)) as ZoomLevel })}
+            title="Zoom"
+            className="bg-zinc-900 border border-zinc-800 rounded text-[10px] font-mono text-zinc-400 px-1 py-0.5 focus:outline-none"
+          >
+            {ZOOM_LEVELS.map(level => (
+              <option key={String(level)} value={String(level)}>{level === 'fit' ? 'Fit' : `${level * 100}%`}</option>
+            ))}
+          </select>
+        </>
+      )}
+
+      <button
+        onClick={() => onCompareChange(!compare)}
+        title="Compare Breakpoints Side by Side"
+        className={`ml-auto flex items-center gap-1.5 px-2 py-1 rounded-md text-[10px] font-mono uppercase transition-all ${compare ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+      >
+        <Squares2X2Icon className="w-4 h-4" />Breakpoints
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ZoomLevel, getViewportScale } from '../services/devices';
+
+interface DeviceViewportProps {
+  size: { width: number; height: number } | null; // null fills the pane
+  zoom: ZoomLevel;
+  bezel?: boolean; // Rounded device chrome for handhelds
+  children: React.ReactNode;
+}
+
+// Breathing room around an emulated device, per side
+const VIEWPORT_PADDING = 24;
+
+/**
+ * Draws its children at an emulated viewport size, scaled to the pane. The element
+ * tree is the same in fill mode, so switching devices resizes the preview instead
+ * of reloading it.
+ */
+export const DeviceViewport: React.FC<DeviceViewportProps> = ({ size, zoom, bezel = false, children }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [available, setAvailable] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setAvailable({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const scale = size ? getViewportScale(size, { width: available.width - VIEWPORT_PADDING * 2, height: available.height - VIEWPORT_PADDING * 2 }, zoom) : 1;
+  const outerStyle: React.CSSProperties = size ? { width: size.width * scale, height: size.height * scale } : { width: '100%', height: '100%' };
+  const innerStyle: React.CSSProperties = size ? { width: size.width, height: size.height, transform: `scale(${scale})`, transformOrigin: 'top left' } : { width: '100%', height: '100%' };
+
+  return (
+    <div ref={containerRef} className={`w-full h-full ${size ? 'overflow-auto bg-[#09090b]' : 'overflow-hidden bg-white'}`}>
+      <div className={size ? 'min-w-full min-h-full w-max flex items-start justify-center' : 'w-full h-full'} style={size ? { padding: VIEWPORT_PADDING } : undefined}>
+        <div
+          style={outerStyle}
+          className={`relative shrink-0 overflow-hidden bg-white ${size ? `shadow-2xl ${bezel ? 'rounded-[1.75rem] ring-[6px] ring-zinc-800' : 'rounded-md ring-1 ring-zinc-700'}` : ''}`}
+        >
+          <div style={innerStyle}>{children}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ArrowDownTrayIcon, CodeBracketIcon, ArchiveBoxIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { buildBundleZip, buildCreationJson, buildStandaloneHtml, downloadBlob, toFileSlug } from '../services/exporter';
+
+interface ExportMenuProps {
+  creation: Creation;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ creation }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBundling, setIsBundling] = useState(false);
+  const slug = toFileSlug(creation.name);
+
+  const exportHtml = () => {
+    downloadBlob(new Blob([buildStandaloneHtml(creation)], { type: 'text/html' }), `${slug}.html`);
+    setIsOpen(false);
+  };
+
+  const exportZip = async () => {
+    setIsBundling(true);
+    try {
+      downloadBlob(await buildBundleZip(creation), `${slug}.zip`);
+    } catch (e) {
+      console.error("Failed to build bundle", e);
+      alert("Could not build the ZIP bundle.");
+    } finally {
+      setIsBundling(false);
+      setIsOpen(false);
+    }
+  };
+
+  const exportJson = async () => {
+    const dataStr = await buildCreationJson(creation);
+    downloadBlob(new Blob([dataStr], { type: "application/json" }), `${slug}_artifact.json`);
+    setIsOpen(false);
+  };
+
+  const itemClass = "w-full flex items-center gap-3 px-3 py-2 text-xs text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg transition-colors text-left";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Export"
+        className={`p-1.5 rounded-md transition-all ${isOpen ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800'}`}
+      >
+        {isBundling ? (
+          <div className="w-4 h-4 border-2 border-zinc-500 border-t-transparent rounded-full animate-spin" />
+        ) : (
+          <ArrowDownTrayIcon className="w-4 h-4" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-50 min-w-[200px] bg-zinc-900 border border-zinc-800 rounded-xl p-1.5 shadow-2xl animate-in fade-in slide-in-from-top-2">
+          <button onClick={exportHtml} className={itemClass}>
+            <CodeBracketIcon className="w-4 h-4 text-blue-400" />
+            <span>Standalone HTML</span>
+          </button>
+          <button onClick={exportZip} disabled={isBundling} className={itemClass}>
+            <ArchiveBoxIcon className="w-4 h-4 text-green-400" />
+            <span>Deployable ZIP Bundle</span>
+          </button>
+          <div className="h-px bg-zinc-800 my-1 mx-2" />
+          <button onClick={exportJson} className={itemClass}>
+            <DocumentTextIcon className="w-4 h-4 text-zinc-500" />
+            <span>Creation JSON</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { ChevronDownIcon, ChevronRightIcon, DocumentIcon, DocumentPlusIcon, FolderIcon, PhotoIcon, ScissorsIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { FileTreeNode, ProjectFile, buildFileTree, getAssetMimeType, normalizeProjectPath } from '../services/vfs';
+
+interface FileTreeProps {
+  files: ProjectFile[]; // The draft being edited
+  savedFiles: ProjectFile[];
+  activePath: string;
+  onSelect: (path: string) => void;
+  // File operations; left out for single-document creations
+  onCreate?: (path: string) => void;
+  onRename?: (from: string, to: string) => void;
+  onDelete?: (path: string) => void;
+  onSplit?: () => void; // Converts a single document into files
+}
+
+const inputClass = "w-full bg-black/50 border border-zinc-700 rounded px-1.5 py-0.5 text-[11px] font-mono text-zinc-200 focus:outline-none focus:border-zinc-500";
+
+interface PathInputProps {
+  initial: string;
+  taken: (path: string) => boolean;
+  onSubmit: (path: string) => void;
+  onCancel: () => void;
+}
+
+/** Inline path field that only accepts a valid, unused project path. */
+const PathInput: React.FC<PathInputProps> = ({ initial, taken, onSubmit, onCancel }) => {
+  const [value, setValue] = useState(initial);
+  const path = normalizeProjectPath(value);
+  const error = !path ? 'Invalid path' : path !== initial && taken(path) ? 'Already exists' : null;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && path && !error) onSubmit(path);
+    else if (e.key === 'Escape') onCancel();
+  };
+
+  return (
+    <div className="px-2 py-0.5">
+      <input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={onCancel}
+        placeholder="path/to/file.js"
+        autoFocus
+        className={inputClass}
+      />
+      {value && error && <div className="text-[9px] font-mono text-red-400 mt-0.5">{error}</div>}
+    </div>
+  );
+};
+
+/**
+ * Sidebar listing a creation's files by folder. Double-click a file to rename it.
+ */
+export const FileTree: React.FC<FileTreeProps> = ({ files, savedFiles, activePath, onSelect, onCreate, onRename, onDelete, onSplit }) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [isCreating, setIsCreating] = useState(false);
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const tree = useMemo(() => buildFileTree(files), [files]);
+  const taken = (path: string) => files.some(f => f.path === path);
+
+  const isModified = (file: ProjectFile) => savedFiles.find(f => f.path === file.path)?.content !== file.content;
+
+  const toggleFolder = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+    const indent = { paddingLeft: `${8 + depth * 12}px` };
+    if (node.children) {
+      const isOpen = !collapsed.has(node.path);
+      return (
+        <div key={`dir:${node.path}`}>
+          <button onClick={() => toggleFolder(node.path)} style={indent} className="w-full flex items-center gap-1 pr-2 py-0.5 text-[11px] font-mono text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50">
+            {isOpen ? <ChevronDownIcon className="w-3 h-3 shrink-0" /> : <ChevronRightIcon className="w-3 h-3 shrink-0" />}
+            <FolderIcon className="w-3.5 h-3.5 shrink-0 text-zinc-500" />
+            <span className="truncate">{node.name}</span>
+          </button>
+          {isOpen && node.children.map(child => renderNode(child, depth + 1))}
+        </div>
+      );
+    }
+
+    if (renaming === node.path && onRename) {
+      return (
+        <PathInput
+          key={`file:${node.path}`}
+          initial={node.path}
+          taken={taken}
+          onSubmit={(path) => { if (path !== node.path) onRename(node.path, path); setRenaming(null); }}
+          onCancel={() => setRenaming(null)}
+        />
+      );
+    }
+
+    const file = files.find(f => f.path === node.path)!;
+    const Icon = getAssetMimeType(node.path) ? PhotoIcon : DocumentIcon;
+    return (
+      <div
+        key={`file:${node.path}`}
+        onClick={() => onSelect(node.path)}
+        onDoubleClick={() => onRename && setRenaming(node.path)}
+        style={indent}
+        title={node.path}
+        className={`group flex items-center gap-1.5 pr-1 py-0.5 text-[11px] font-mono cursor-pointer ${node.path === activePath ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800/50'}`}
+      >
+        <Icon className="w-3.5 h-3.5 shrink-0 ml-4 text-zinc-500" />
+        <span className="truncate flex-1">{node.name}</span>
+        {isModified(file) && <span className="w-1.5 h-1.5 rounded-full bg-amber-400 shrink-0" title="Unsaved changes" />}
+        {onDelete && files.length > 1 && (
+          <button onClick={(e) => { e.stopPropagation(); onDelete(node.path); }} title="Delete" className="hidden group-hover:block p-0.5 rounded text-zinc-500 hover:text-red-400">
+            <TrashIcon className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-44 shrink-0 flex flex-col bg-[#0c0c0e] border-r border-zinc-800 min-h-0">
+      <div className="px-3 py-1.5 flex items-center justify-between border-b border-zinc-800 shrink-0">
+        <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">Files</span>
+        {onCreate && (
+          <button onClick={() => setIsCreating(true)} title="New File" className="text-zinc-500 hover:text-zinc-300 p-0.5 rounded hover:bg-zinc-800">
+            <DocumentPlusIcon className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+      <div className="flex-1 overflow-y-auto py-1">
+        {isCreating && onCreate && (
+          <PathInput
+            initial=""
+            taken={taken}
+            onSubmit={(path) => { onCreate(path); setIsCreating(false); }}
+            onCancel={() => setIsCreating(false)}
+          />
+        )}
+        {tree.map(node => renderNode(node, 0))}
+      </div>
+      {onSplit && (
+        <button onClick={onSplit} title="Move styles, scripts and large images into their own files" className="flex items-center justify-center gap-1.5 m-2 px-2 py-1 text-[10px] font-medium text-zinc-300 border border-zinc-700 hover:bg-zinc-800 rounded transition-colors">
+          <ScissorsIcon className="w-3 h-3" />Split into Files
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { AdjustmentsHorizontalIcon } from '@heroicons/react/24/outline';
+import { GenerationParams } from '../services/generationSettings';
+
+interface GenerationParamsMenuProps {
+  params: GenerationParams;
+  onReuse: (params: GenerationParams, keepSeed: boolean) => void;
+}
+
+/**
+ * Shows the exact parameters a creation was generated with and loads them
+ * into the generation settings, with or without the seed.
+ */
+export const GenerationParamsMenu: React.FC<GenerationParamsMenuProps> = ({ params, onReuse }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const rows: [string, string | number][] = [
+    ...(params.code ? [
+      ['Model', params.code.model],
+      ['Temperature', params.code.temperature],
+      ['Thinking budget', params.code.thinkingBudget],
+      ['Seed', params.code.seed],
+    ] as [string, string | number][] : []),
+    ...(params.image ? [
+      ...(params.image.model ? [['Model', params.image.model]] : []),
+      ['Size', `${params.image.width}×${params.image.height}`],
+      ['Steps', params.image.steps],
+      ['Guidance', params.image.guidance],
+      ['Seed', params.image.seed],
+    ] as [string, string | number][] : []),
+  ];
+
+  const reuse = (keepSeed: boolean) => {
+    onReuse(params, keepSeed);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Generation Parameters"
+        className={`p-1.5 rounded-md transition-all ${isOpen ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+      >
+        <AdjustmentsHorizontalIcon className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-50 w-64 bg-zinc-900 border border-zinc-800 rounded-xl p-3 shadow-2xl animate-in fade-in slide-in-from-top-2">
+          <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">{params.code ? 'Generated With' : 'FLUX Parameters'}</span>
+          <dl className="mt-2 space-y-1">
+            {rows.map(([label, value]) => (
+              <div key={label} className="flex justify-between gap-3 text-[11px]">
+                <dt className="text-zinc-500">{label}</dt>
+                <dd className="font-mono text-zinc-300 truncate">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          <p className="text-[10px] text-zinc-500 mt-3">Loads these values into the generation settings for your next run.</p>
+          <div className="flex justify-end gap-2 mt-2">
+            <button onClick={() => reuse(false)} title="Same settings with a new random seed" className="text-xs text-zinc-400 hover:text-zinc-200 px-3 py-1.5 rounded-md transition-colors">
+              Vary
+            </button>
+            <button onClick={() => reuse(true)} className="text-xs font-bold bg-white text-black hover:bg-zinc-200 px-3 py-1.5 rounded-md transition-colors">
+              Reuse Exactly
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { AdjustmentsHorizontalIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { DEFAULT_GENERATION_SETTINGS, GenerationSettings, LIMITS, clampSetting, randomSeed } from '../services/generationSettings';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  models: string[]; // The active provider's code models, default first
+  onChange: (settings: GenerationSettings) => void;
+  onSaveDefaults: () => void;
+  onResetDefaults: () => void; // Back to the saved defaults
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-md text-[11px] font-mono text-zinc-200 px-2 py-1 focus:ring-0 focus:border-zinc-600 placeholder-zinc-600";
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  range: { min: number; max: number; step: number };
+  placeholder?: string; // Shown when the value is unset
+  onChange: (value: number | undefined) => void;
+}
+
+/** Number input that commits on blur, clamped to its range; emptying an optional field unsets it. */
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, range, placeholder, onChange }) => {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setDraft(value === undefined ? '' : String(value));
+  }, [value]);
+
+  const commit = () => {
+    if (!draft.trim()) {
+      if (placeholder !== undefined) onChange(undefined);
+      else setDraft(value === undefined ? '' : String(value));
+      return;
+    }
+    const next = clampSetting(Number(draft), range, value ?? range.min);
+    setDraft(String(next));
+    onChange(next);
+  };
+
+  return (
+    <label className="block space-y-1">
+      <span className="text-[9px] font-mono uppercase tracking-wider text-zinc-500">{label}</span>
+      <input
+        type="number"
+        value={draft}
+        min={range.min}
+        max={range.max}
+        step={range.step}
+        placeholder={placeholder}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        className={inputClass}
+      />
+    </label>
+  );
+};
+
+const SeedField: React.FC<{ value: number | undefined; onChange: (value: number | undefined) => void }> = ({ value, onChange }) => (
+  <div className="flex items-end gap-1">
+    <div className="flex-1">
+      <NumberField label="Seed" value={value} range={LIMITS.seed} placeholder="Random" onChange={onChange} />
+    </div>
+    <button type="button" onClick={() => onChange(randomSeed())} title="Pick a seed" className="p-1.5 rounded-md text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800">
+      <ArrowPathIcon className="w-3.5 h-3.5" />
+    </button>
+  </div>
+);
+
+/**
+ * Model, sampling and image overrides for the next generations, with saved defaults.
+ */
+export const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, models, onChange, onSaveDefaults, onResetDefaults }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { code, image, variants } = settings;
+  const isCustomized = JSON.stringify(settings) !== JSON.stringify(DEFAULT_GENERATION_SETTINGS);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const setCode = (changes: Partial<GenerationSettings['code']>) => onChange({ ...settings, code: { ...code, ...changes } });
+  const setImage = (changes: Partial<GenerationSettings['image']>) => onChange({ ...settings, image: { ...image, ...changes } });
+  const setVariants = (changes: Partial<GenerationSettings['variants']>) => onChange({ ...settings, variants: { ...variants, ...changes } });
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        title="Generation settings"
+        className={`relative p-2 rounded-full transition-all ${isOpen ? 'text-zinc-100 bg-zinc-800' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800'}`}
+      >
+        <AdjustmentsHorizontalIcon className="w-5 h-5" />
+        {isCustomized && <span className="absolute top-1.5 right-1.5 w-1.5 h-1.5 rounded-full bg-blue-400" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-3 w-80 bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl animate-in fade-in slide-in-from-bottom-2 z-50 p-3 space-y-3">
+          <div className="space-y-2">
+            <div className="text-[10px] font-bold uppercase tracking-wider text-zinc-400">Code Generation</div>
+            <label className="block space-y-1">
+              <span className="text-[9px] font-mono uppercase tracking-wider text-zinc-500">Model</span>
+              <select value={code.model || ''} onChange={(e) => setCode({ model: e.target.value || undefined })} className={inputClass}>
+                <option value="">Default ({models[0]})</option>
+                {models.map(model => <option key={model} value={model}>{model}</option>)}
+                {code.model && !models.includes(code.model) && <option value={code.model}>{code.model}</option>}
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Temperature" value={code.temperature} range={LIMITS.temperature} placeholder="Style default" onChange={(temperature) => setCode({ temperature })} />
+              <NumberField label="Thinking Budget" value={code.thinkingBudget} range={LIMITS.thinkingBudget} onChange={(thinkingBudget) => setCode({ thinkingBudget: thinkingBudget ?? DEFAULT_GENERATION_SETTINGS.code.thinkingBudget })} />
+            </div>
+            <SeedField value={code.seed} onChange={(seed) => setCode({ seed })} />
+          </div>
+
+          <div className="h-px bg-zinc-800" />
+
+          <div className="space-y-2">
+            <div className="text-[10px] font-bold uppercase tracking-wider text-zinc-400">Variants</div>
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Count" value={variants.count} range={LIMITS.variants} onChange={(count) => setVariants({ count: count ?? variants.count })} />
+              <NumberField label="In Parallel" value={variants.concurrency} range={LIMITS.concurrency} onChange={(concurrency) => setVariants({ concurrency: concurrency ?? variants.concurrency })} />
+            </div>
+            {variants.count > 1 && (
+              <p className="text-[10px] text-zinc-500">Each generation runs {variants.count} times{code.seed !== undefined ? ' on consecutive seeds' : ''} so you can pick the best.</p>
+            )}
+          </div>
+
+          <div className="h-px bg-zinc-800" />
+
+          <div className="space-y-2">
+            <div className="text-[10px] font-bold uppercase tracking-wider text-zinc-400">FLUX Image</div>
+            <div className="grid grid-cols-2 gap-2">
+              <NumberField label="Width" value={image.width} range={LIMITS.size} onChange={(width) => setImage({ width: width ?? image.width })} />
+              <NumberField label="Height" value={image.height} range={LIMITS.size} onChange={(height) => setImage({ height: height ?? image.height })} />
+              <NumberField label="Steps" value={image.steps} range={LIMITS.steps} onChange={(steps) => setImage({ steps: steps ?? image.steps })} />
+              <NumberField label="Guidance" value={image.guidance} range={LIMITS.guidance} onChange={(guidance) => setImage({ guidance: guidance ?? image.guidance })} />
+            </div>
+            <SeedField value={image.seed} onChange={(seed) => setImage({ seed })} />
+          </div>
+
+          <div className="flex items-center justify-between pt-1">
+            <button type="button" onClick={() => onChange(DEFAULT_GENERATION_SETTINGS)} className="text-[11px] text-zinc-500 hover:text-zinc-300 px-2 py-1">Factory Reset</button>
+            <div className="flex gap-2">
+              <button type="button" onClick={onResetDefaults} className="text-[11px] font-medium text-zinc-400 hover:text-zinc-200 px-3 py-1.5 rounded-lg">Revert</button>
+              <button type="button" onClick={onSaveDefaults} className="text-[11px] font-bold bg-white text-black hover:bg-zinc-200 px-3 py-1.5 rounded-lg transition-colors">Save as Default</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { CheckCircleIcon, ExclamationTriangleIcon, XCircleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { ImportItem, CollisionStrategy } from '../services/importer';
+
+export type ImportMode = 'merge' | 'replace';
+
+interface ImportDialogProps {
+  items: ImportItem[];
+  allowReplace?: boolean; // Restore flow: offer replacing the whole library instead of merging
+  onConfirm: (strategies: Record<string, CollisionStrategy>, mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+const STRATEGY_LABELS: Record<CollisionStrategy, string> = {
+  skip: 'Skip',
+  overwrite: 'Overwrite',
+  duplicate: 'Keep Both',
+};
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ items, allowReplace = false, onConfirm, onCancel }) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [defaultStrategy, setDefaultStrategy] = useState<CollisionStrategy>('skip');
+  const [overrides, setOverrides] = useState<Record<string, CollisionStrategy>>({});
+
+  const valid = items.filter(i => i.result.ok);
+  const invalid = items.length - valid.length;
+  // Replacing starts from an empty library, so existing ids can't collide
+  const collisions = mode === 'replace' ? [] : valid.filter(i => i.collides);
+
+  const strategyFor = (key: string) => overrides[key] || defaultStrategy;
+  const importCount = mode === 'replace' ? valid.length : valid.filter(i => !i.collides || strategyFor(i.key) !== 'skip').length;
+
+  const handleConfirm = () => {
+    if (mode === 'replace' && !confirm("Replace your entire library with this backup? Current creations will be deleted.")) return;
+    const strategies: Record<string, CollisionStrategy> = {};
+    collisions.forEach(i => { strategies[i.key] = strategyFor(i.key); });
+    onConfirm(strategies, mode);
+  };
+
+  const renderStrategyPicker = (value: CollisionStrategy, onChange: (s: CollisionStrategy) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as CollisionStrategy)}
+      className="bg-zinc-900 border border-zinc-700 rounded-md text-[11px] text-zinc-300 px-2 py-1 focus:outline-none focus:border-zinc-500"
+    >
+      {(Object.keys(STRATEGY_LABELS) as CollisionStrategy[]).map(s => <option key={s} value={s}>{STRATEGY_LABELS[s]}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="w-full max-w-2xl max-h-[80vh] flex flex-col bg-[#0E0E10] border border-zinc-800 rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <div>
+            <h2 className="text-sm font-bold text-zinc-100">{allowReplace ? 'Restore Library' : 'Import Creations'}</h2>
+            <p className="text-[11px] font-mono text-zinc-500 mt-0.5">
+              {valid.length} valid · {invalid} rejected · {collisions.length} already in library
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-zinc-500 hover:text-zinc-300 p-1 rounded-md hover:bg-zinc-800"><XMarkIcon className="w-4 h-4" /></button>
+        </div>
+
+        {allowReplace && (
+          <div className="flex items-center gap-2 px-5 py-3 border-b border-zinc-800">
+            {(['merge', 'replace'] as ImportMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`text-[11px] font-mono uppercase tracking-wider px-3 py-1.5 rounded-full border transition-colors ${mode === m ? (m === 'replace' ? 'border-red-500/50 bg-red-500/10 text-red-200' : 'border-zinc-500 bg-zinc-800 text-zinc-100') : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+              >
+                {m === 'merge' ? 'Merge into Library' : 'Replace Library'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {collisions.length > 0 && (
+          <div className="flex items-center justify-between px-5 py-3 border-b border-zinc-800 bg-amber-500/5">
+            <span className="text-xs text-amber-200/80">When an id already exists:</span>
+            {renderStrategyPicker(defaultStrategy, (s) => { setDefaultStrategy(s); setOverrides({}); })}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto divide-y divide-zinc-800/60">
+          {items.map(item => (
+            <div key={item.key} className="px-5 py-3 flex items-start gap-3">
+              {!item.result.ok ? (
+                <XCircleIcon className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+              ) : (item.collides && mode === 'merge') || item.result.warnings.length > 0 ? (
+                <ExclamationTriangleIcon className="w-4 h-4 text-amber-400 shrink-0 mt-0.5" />
+              ) : (
+                <CheckCircleIcon className="w-4 h-4 text-green-400 shrink-0 mt-0.5" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="text-xs text-zinc-200 truncate">{item.result.ok ? item.result.creation.name : 'Rejected'}</div>
+                <div className="text-[10px] font-mono text-zinc-600 truncate">{item.sourceName}</div>
+                {!item.result.ok && item.result.errors.map((e, idx) => <div key={idx} className="text-[11px] text-red-300/90 mt-1">{e}</div>)}
+                {item.result.ok && item.result.warnings.map((w, idx) => <div key={idx} className="text-[11px] text-amber-200/70 mt-1">{w}</div>)}
+              </div>
+              {item.result.ok && item.collides && mode === 'merge' && renderStrategyPicker(strategyFor(item.key), (s) => setOverrides(o => ({ ...o, [item.key]: s })))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 px-5 py-4 border-t border-zinc-800">
+          <button onClick={onCancel} className="text-xs font-medium text-zinc-400 hover:text-zinc-200 px-4 py-2 rounded-lg">Cancel</button>
+          <button
+            onClick={handleConfirm}
+            disabled={importCount === 0}
+            className="text-xs font-bold bg-white text-black hover:bg-zinc-200 px-4 py-2 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none"
+          >
+            {mode === 'replace' ? `Restore ${importCount}` : `Import ${importCount}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -10,35 +10,79 @@ import {
   ArrowUpIcon, 
   PhotoIcon, 
   DocumentIcon,
-  XMarkIcon,
   StopIcon,
-  SparklesIcon
+  SparklesIcon,
+  ClipboardDocumentCheckIcon
 } from '@heroicons/react/24/outline';
+import { PdfPagePicker } from './PdfPagePicker';
+import { Attachment, AttachmentList } from './AttachmentList';
+import { DetectionEditor } from './DetectionEditor';
+import { DEFAULT_PDF_PAGE_LIMIT, PdfPageInfo, readPdfPages } from '../services/pdf';
+import { MAX_INPUT_FILES, readFileAsBase64 } from '../services/inputs';
+import { identifyImage, IdentificationResult } from '../services/gemini';
+import { StylePresetPicker } from './StylePresetPicker';
+import { TargetPicker } from './TargetPicker';
+import { GenerationSettingsPanel } from './GenerationSettingsPanel';
+import { BUILT_IN_PRESETS, DEFAULT_STYLE_PRESET_ID, StylePreset, findPreset, getCustomPresets, getSelectedPresetId, saveCustomPresets, setSelectedPresetId } from '../services/styles';
+import { ArtifactTarget, getSelectedTarget, setSelectedTarget } from '../services/project';
+import { GenerationSettings, getDefaultGenerationSettings, saveDefaultGenerationSettings } from '../services/generationSettings';
+
+/** One attached file as handed to generation, in send order. */
+export interface GenerationInputFile {
+  file: File;
+  caption?: string;
+  pages?: number[]; // Selected PDF pages
+  detections?: IdentificationResult[]; // Corrected scan, used instead of scanning again
+}
+
+/** Per-generation choices made in the input area. */
+export interface GenerationOptions {
+  style: StylePreset;
+  target: ArtifactTarget;
+}
 
 interface InputAreaProps {
-  onGenerate: (prompt: string, file?: File) => void;
+  onGenerate: (prompt: string, files: GenerationInputFile[], options: GenerationOptions) => void;
   onGenerateImage: (prompt: string) => void;
   isGenerating: boolean;
   disabled?: boolean;
+  reviewScan: boolean; // Pause after the scan to approve detections
+  onReviewScanChange: (enabled: boolean) => void;
+  settings: GenerationSettings; // Model, sampling and image overrides for the next generations
+  models: string[];
+  onSettingsChange: (settings: GenerationSettings) => void;
 }
 
 export const InputArea: React.FC<InputAreaProps> = ({ 
   onGenerate, 
   onGenerateImage,
   isGenerating, 
-  disabled = false 
+  disabled = false,
+  reviewScan,
+  onReviewScanChange,
+  settings,
+  models,
+  onSettingsChange
 }) => {
   const [text, setText] = useState('');
   const [interimText, setInterimText] = useState('');
-  const [file, setFile] = useState<File | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [activePdfId, setActivePdfId] = useState<string | null>(null);
+  const [editingScanId, setEditingScanId] = useState<string | null>(null);
+  const [presets, setPresets] = useState<StylePreset[]>(() => [...BUILT_IN_PRESETS, ...getCustomPresets()]);
+  const [styleId, setStyleId] = useState(getSelectedPresetId);
+  const [target, setTarget] = useState<ArtifactTarget>(getSelectedTarget);
   const [isRecording, setIsRecording] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isDropTarget, setIsDropTarget] = useState(false);
   
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const recognitionRef = useRef<any>(null);
   const finalTranscriptRef = useRef('');
+  // In-flight PDF reads and scans, per attachment
+  const tasksRef = useRef(new Map<string, AbortController>());
 
   // Auto-resize and scroll textarea
   useEffect(() => {
@@ -95,6 +139,129 @@ export const InputArea: React.FC<InputAreaProps> = ({
     }
   }, []);
 
+  const updateAttachment = (id: string, patch: Partial<Attachment>) => {
+    setAttachments(prev => prev.map(a => a.id === id ? { ...a, ...patch } : a));
+  };
+
+  // Read every page of an attached PDF so the user can choose which ones to send; long ones fill in as they're read
+  const readPdf = (attachment: Attachment) => {
+    const controller = new AbortController();
+    tasksRef.current.set(attachment.id, controller);
+    const showPages = (pages: PdfPageInfo[]) => setAttachments(prev => prev.map(a => a.id !== attachment.id ? a : {
+      ...a,
+      pdfPages: pages,
+      // Preselected once, from the first pages to arrive
+      selectedPages: a.pdfPages ? a.selectedPages : pages.slice(0, DEFAULT_PDF_PAGE_LIMIT).map(p => p.number),
+    }));
+    readPdfPages(attachment.file, controller.signal, showPages)
+      .then(showPages)
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error("Error reading PDF:", err);
+        updateAttachment(attachment.id, { pdfError: "Could not read this PDF." });
+      })
+      .finally(() => tasksRef.current.delete(attachment.id));
+  };
+
+  const releaseAttachment = (attachment: Attachment) => {
+    tasksRef.current.get(attachment.id)?.abort();
+    if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl);
+  };
+
+  const addFiles = (files: File[]) => {
+    const accepted = files.filter(f => f.type.startsWith('image/') || f.type === 'application/pdf');
+    const room = MAX_INPUT_FILES - attachments.length;
+    if (accepted.length > room) alert(`Up to ${MAX_INPUT_FILES} files can be attached to one generation.`);
+    const added: Attachment[] = accepted.slice(0, Math.max(0, room)).map(file => ({
+      id: crypto.randomUUID(),
+      file,
+      caption: '',
+      previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined,
+      pdfPages: null,
+      pdfError: null,
+      selectedPages: [],
+      scanning: false,
+    }));
+    if (added.length === 0) return;
+    setAttachments(prev => [...prev, ...added]);
+    const pdfs = added.filter(a => a.file.type === 'application/pdf');
+    pdfs.forEach(readPdf);
+    if (pdfs.length > 0) setActivePdfId(pdfs[pdfs.length - 1].id);
+  };
+
+  const removeAttachment = (id: string) => {
+    const attachment = attachments.find(a => a.id === id);
+    if (attachment) releaseAttachment(attachment);
+    setAttachments(prev => prev.filter(a => a.id !== id));
+    if (activePdfId === id) setActivePdfId(attachments.find(a => a.id !== id && a.file.type === 'application/pdf')?.id ?? null);
+    if (editingScanId === id) setEditingScanId(null);
+  };
+
+  // Scans an image on demand so its detections can be corrected before generating
+  const scanAttachment = async (id: string) => {
+    const attachment = attachments.find(a => a.id === id);
+    if (!attachment || attachment.scanning) return;
+    setEditingScanId(id);
+    if (attachment.detections) return;
+    const controller = new AbortController();
+    tasksRef.current.set(id, controller);
+    updateAttachment(id, { scanning: true });
+    try {
+      const base64 = await readFileAsBase64(attachment.file);
+      const detections = await identifyImage(base64, attachment.file.type, controller.signal);
+      updateAttachment(id, { detections, scanning: false });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Error scanning image:", err);
+      updateAttachment(id, { scanning: false });
+      setEditingScanId(null);
+    } finally {
+      tasksRef.current.delete(id);
+    }
+  };
+
+  const reorderAttachments = (fromId: string, toId: string) => {
+    setAttachments(prev => {
+      const from = prev.findIndex(a => a.id === fromId);
+      const to = prev.findIndex(a => a.id === toId);
+      if (from === -1 || to === -1) return prev;
+      const next = [...prev];
+      next.splice(to, 0, next.splice(from, 1)[0]);
+      return next;
+    });
+  };
+
+  // Stop in-flight PDF reads when the input area goes away
+  useEffect(() => () => tasksRef.current.forEach(controller => controller.abort()), []);
+
+  const editingScan = attachments.find(a => a.id === editingScanId && a.detections && a.previewUrl);
+  const activePdf = attachments.find(a => a.id === activePdfId && a.file.type === 'application/pdf');
+  const pdfReady = attachments.every(a => a.file.type !== 'application/pdf' || (!!a.pdfPages && a.selectedPages.length > 0));
+  const hasFiles = attachments.length > 0;
+
+  const selectStyle = (id: string) => {
+    setStyleId(id);
+    setSelectedPresetId(id);
+  };
+
+  const saveStyle = (preset: StylePreset) => {
+    const next = presets.some(p => p.id === preset.id) ? presets.map(p => p.id === preset.id ? preset : p) : [...presets, preset];
+    setPresets(next);
+    saveCustomPresets(next);
+  };
+
+  const deleteStyle = (id: string) => {
+    const next = presets.filter(p => p.id !== id);
+    setPresets(next);
+    saveCustomPresets(next);
+    if (styleId === id) selectStyle(DEFAULT_STYLE_PRESET_ID);
+  };
+
+  const selectTarget = (next: ArtifactTarget) => {
+    setTarget(next);
+    setSelectedTarget(next);
+  };
+
   const toggleRecording = useCallback(() => {
     if (isRecording) {
       recognitionRef.current?.stop();
@@ -106,21 +273,40 @@ export const InputArea: React.FC<InputAreaProps> = ({
   }, [isRecording, text]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      addFiles(Array.from(e.target.files));
       setIsMenuOpen(false);
     }
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDropTarget(false);
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    addFiles(Array.from(e.dataTransfer.files));
   };
 
   const handleSubmit = (e?: React.FormEvent) => {
     e?.preventDefault();
     const combinedText = (text + (interimText ? ' ' + interimText : '')).trim();
-    if ((combinedText || file) && !isGenerating && !disabled) {
-      onGenerate(combinedText, file || undefined);
+    if ((combinedText || hasFiles) && pdfReady && !isGenerating && !disabled) {
+      onGenerate(combinedText, attachments.map(a => ({
+        file: a.file,
+        caption: a.caption.trim() || undefined,
+        pages: a.file.type === 'application/pdf' ? a.selectedPages : undefined,
+        detections: a.detections,
+      })), { style: findPreset(presets, styleId), target });
       setText('');
       setInterimText('');
       finalTranscriptRef.current = '';
-      setFile(null);
+      attachments.forEach(releaseAttachment);
+      setAttachments([]);
+      setActivePdfId(null);
+      setEditingScanId(null);
     }
   };
 
@@ -158,24 +344,30 @@ export const InputArea: React.FC<InputAreaProps> = ({
 
       <form 
         onSubmit={handleSubmit}
-        className={`relative flex flex-col bg-zinc-900/80 border rounded-3xl shadow-2xl backdrop-blur-xl transition-all duration-300 ${isRecording ? 'border-red-500/40 ring-1 ring-red-500/20' : 'border-zinc-800 focus-within:border-zinc-700'}`}
+        onDragOver={(e) => { if (isFileDrag(e)) { e.preventDefault(); setIsDropTarget(true); } }}
+        onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDropTarget(false); }}
+        onDrop={handleDrop}
+        className={`relative flex flex-col bg-zinc-900/80 border rounded-3xl shadow-2xl backdrop-blur-xl transition-all duration-300 ${isRecording ? 'border-red-500/40 ring-1 ring-red-500/20' : isDropTarget ? 'border-blue-500/50 ring-1 ring-blue-500/20' : 'border-zinc-800 focus-within:border-zinc-700'}`}
       >
-        {file && (
-          <div className="px-4 pt-3 flex">
-            <div className="flex items-center gap-2 bg-zinc-800 border border-zinc-700 rounded-lg p-2 animate-in fade-in slide-in-from-bottom-2">
-              {file.type.startsWith('image/') ? (
-                <div className="w-8 h-8 rounded overflow-hidden bg-zinc-900 border border-zinc-700">
-                  <img src={URL.createObjectURL(file)} className="w-full h-full object-cover" alt="Preview" />
-                </div>
-              ) : (
-                <DocumentIcon className="w-5 h-5 text-blue-400" />
-              )}
-              <span className="text-xs text-zinc-300 max-w-[150px] truncate">{file.name}</span>
-              <button type="button" onClick={() => setFile(null)} className="hover:bg-zinc-700 rounded-full p-0.5 transition-colors">
-                <XMarkIcon className="w-3.5 h-3.5 text-zinc-500" />
-              </button>
-            </div>
-          </div>
+        {hasFiles && (
+          <AttachmentList
+            attachments={attachments}
+            activeId={activePdf?.id ?? null}
+            onActivate={setActivePdfId}
+            onCaptionChange={(id, caption) => updateAttachment(id, { caption })}
+            onReorder={reorderAttachments}
+            onRemove={removeAttachment}
+            onScan={scanAttachment}
+          />
+        )}
+
+        {activePdf && (
+          <PdfPagePicker
+            pages={activePdf.pdfPages}
+            error={activePdf.pdfError}
+            selected={activePdf.selectedPages}
+            onChange={(selectedPages) => updateAttachment(activePdf.id, { selectedPages })}
+          />
         )}
 
         <div className="flex items-end p-2 md:p-3 gap-2">
@@ -196,7 +388,7 @@ export const InputArea: React.FC<InputAreaProps> = ({
                   className="flex items-center gap-3 px-3 py-2 text-sm text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 rounded-xl transition-colors"
                 >
                   <PhotoIcon className="w-5 h-5 text-blue-400" />
-                  <span>Attach Image</span>
+                  <span>Attach Images</span>
                 </button>
                 <button
                   type="button"
@@ -204,7 +396,16 @@ export const InputArea: React.FC<InputAreaProps> = ({
                   className="flex items-center gap-3 px-3 py-2 text-sm text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 rounded-xl transition-colors"
                 >
                   <DocumentIcon className="w-5 h-5 text-green-400" />
-                  <span>Attach File</span>
+                  <span>Attach Files</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onReviewScanChange(!reviewScan)}
+                  className="flex items-center gap-3 px-3 py-2 text-sm text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 rounded-xl transition-colors"
+                >
+                  <ClipboardDocumentCheckIcon className={`w-5 h-5 ${reviewScan ? 'text-amber-400' : 'text-zinc-600'}`} />
+                  <span className="flex-1 text-left">Review Scan</span>
+                  <span className={`text-[10px] font-mono uppercase ${reviewScan ? 'text-amber-400' : 'text-zinc-600'}`}>{reviewScan ? 'On' : 'Off'}</span>
                 </button>
                 <div className="h-px bg-zinc-800 my-1 mx-2" />
                 <button
@@ -219,6 +420,16 @@ export const InputArea: React.FC<InputAreaProps> = ({
             )}
           </div>
 
+          <StylePresetPicker presets={presets} selectedId={styleId} onSelect={selectStyle} onSave={saveStyle} onDelete={deleteStyle} />
+          <TargetPicker selected={target} onSelect={selectTarget} />
+          <GenerationSettingsPanel
+            settings={settings}
+            models={models}
+            onChange={onSettingsChange}
+            onSaveDefaults={() => saveDefaultGenerationSettings(settings)}
+            onResetDefaults={() => onSettingsChange(getDefaultGenerationSettings())}
+          />
+
           <div className="flex-1 relative">
             <textarea
               ref={textareaRef}
@@ -254,8 +465,8 @@ export const InputArea: React.FC<InputAreaProps> = ({
             
             <button
               type="submit"
-              disabled={(!text.trim() && !interimText.trim() && !file) || isGenerating || disabled}
-              className={`p-2 rounded-full transition-all ${(text.trim() || interimText.trim() || file) && !isGenerating ? 'bg-zinc-100 text-black hover:bg-white' : 'bg-zinc-800 text-zinc-600 cursor-not-allowed'}`}
+              disabled={(!text.trim() && !interimText.trim() && !hasFiles) || !pdfReady || isGenerating || disabled}
+              className={`p-2 rounded-full transition-all ${(text.trim() || interimText.trim() || hasFiles) && pdfReady && !isGenerating ? 'bg-zinc-100 text-black hover:bg-white' : 'bg-zinc-800 text-zinc-600 cursor-not-allowed'}`}
             >
               {isGenerating ? (
                 <div className="w-5 h-5 border-2 border-zinc-400 border-t-transparent rounded-full animate-spin" />
@@ -266,9 +477,18 @@ export const InputArea: React.FC<InputAreaProps> = ({
           </div>
         </div>
 
-        <input type="file" ref={imageInputRef} className="hidden" accept="image/*" onChange={handleFileChange} />
-        <input type="file" ref={fileInputRef} className="hidden" accept="application/pdf" onChange={handleFileChange} />
+        <input type="file" ref={imageInputRef} className="hidden" accept="image/*" multiple onChange={handleFileChange} />
+        <input type="file" ref={fileInputRef} className="hidden" accept="image/*,application/pdf" multiple onChange={handleFileChange} />
       </form>
+      {editingScan && (
+        <DetectionEditor
+          title={editingScan.file.name}
+          image={editingScan.previewUrl!}
+          detections={editingScan.detections!}
+          onChange={(detections) => updateAttachment(editingScan.id, { detections })}
+          onClose={() => setEditingScanId(null)}
+        />
+      )}
       <p className="mt-3 text-[10px] text-center text-zinc-600 font-mono tracking-widest uppercase">
         Eburon AI Engine - Real-Time Multimodal Execution
       </p>
@@ -3,22 +3,87 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useEffect, useState, useRef } from 'react';
-import { ArrowDownTrayIcon, PlusIcon, ViewColumnsIcon, DocumentIcon, CodeBracketIcon, XMarkIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { PlusIcon, ViewColumnsIcon, CodeBracketIcon, XMarkIcon, MagnifyingGlassIcon, ChatBubbleLeftRightIcon, ClockIcon, StopIcon, CommandLineIcon, DevicePhoneMobileIcon } from '@heroicons/react/24/outline';
 import { Creation } from './CreationHistory';
+import { RefinePanel } from './RefinePanel';
+import { ExportMenu } from './ExportMenu';
+import { RevisionTimeline } from './RevisionTimeline';
+import { RevisionDiff } from './RevisionDiff';
+import { SandboxFrame } from './SandboxFrame';
+import { SandboxSettings } from './SandboxSettings';
+import { GenerationParamsMenu } from './GenerationParamsMenu';
+import { AlternatesMenu } from './AlternatesMenu';
+import { ConsolePanel } from './ConsolePanel';
+import { ArtifactWarnings } from './ArtifactWarnings';
+import { CodeEditor } from './CodeEditor';
+import { FileTree } from './FileTree';
+import { PdfViewer } from './PdfViewer';
+import { DetectionOverlay } from './DetectionOverlay';
+import { getInputs } from '../services/inputs';
+import { DeviceToolbar } from './DeviceToolbar';
+import { DeviceViewport } from './DeviceViewport';
+import { BreakpointCompare } from './BreakpointCompare';
+import { getRevisions } from '../services/revisions';
+import { getSandboxCsp, setSandboxCsp } from '../services/sandbox';
+import { ConsoleEntry, appendConsoleEntry, countConsoleIssues } from '../services/console';
+import { AutoFixSettings, collectRuntimeErrors } from '../services/repair';
+import { formatHtml, formatProjectFile } from '../services/formatter';
+import { buildPreviewHtml, getArtifactTarget } from '../services/project';
+import { ProjectFile, getAssetMimeType, getSourceFiles, isBinaryContent, sameProjectFiles, splitHtmlDocument } from '../services/vfs';
+import { DEFAULT_VIEWPORT, ViewportSettings, getViewportSize } from '../services/devices';
+import { GenerationParams } from '../services/generationSettings';
+
+export interface RepairStatus {
+  round: number;
+  maxRounds: number;
+}
+
+export type EditorLayout = 'preview' | 'split' | 'code';
+
+const LAYOUTS: { id: EditorLayout; label: string }[] = [
+  { id: 'preview', label: 'Preview' },
+  { id: 'split', label: 'Split' },
+  { id: 'code', label: 'Code' },
+];
+
+export type GenerationStage = 'identifying' | 'reviewing' | 'generating' | 'streaming';
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  scanned: boolean; // Whether this run includes a YOLO26 identification pass
+  detections: number;
+  thinking: string; // Latest thought summary from the model
+  partialHtml: string;
+  receivedChars: number;
+}
+
+// Minimum gap between partial iframe re-renders while tokens stream in
+const PARTIAL_RENDER_INTERVAL = 750;
+// Console output is saved once the preview has been quiet this long
+const CONSOLE_SAVE_DELAY = 600;
+// Pause in typing before the preview reloads with the edited source
+const LIVE_RELOAD_DELAY = 500;
 
 interface LivePreviewProps {
   creation: Creation | null;
   isLoading: boolean;
+  progress: GenerationProgress | null;
   isFocused: boolean;
   onReset: () => void;
-}
-
-// Add type definition for the global pdfjsLib
-declare global {
-  interface Window {
-    pdfjsLib: any;
-  }
+  onCancel: () => void;
+  onRefine: (instruction: string) => void;
+  isRefining: boolean;
+  onRestoreRevision: (revisionId: string) => void;
+  onConsoleLog: (creationId: string, log: ConsoleEntry[]) => void;
+  autoFix: AutoFixSettings;
+  onAutoFixChange: (settings: AutoFixSettings) => void;
+  onFixErrors: (errors: string[]) => void;
+  repairStatus: RepairStatus | null;
+  onSaveHtml: (html: string) => void;
+  onSaveFiles: (files: ProjectFile[], note?: string) => void; // Saves a creation's files as a new revision
+  onReuseSettings: (params: GenerationParams, keepSeed: boolean) => void;
+  onUseAlternate: (alternateId: string) => void; // Swaps in an unchosen variant as a new revision
 }
 
 const LoadingStep = ({ text, active, completed }: { text: string, active: boolean, completed: boolean }) => (
@@ -36,105 +101,203 @@ const LoadingStep = ({ text, active, completed }: { text: string, active: boolea
     </div>
 );
 
-const PdfRenderer = ({ dataUrl }: { dataUrl: string }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const renderPdf = async () => {
-      if (!window.pdfjsLib) {
-        setError("PDF library not initialized");
-        setLoading(false);
-        return;
-      }
-
-      try {
-        setLoading(true);
-        const loadingTask = window.pdfjsLib.getDocument(dataUrl);
-        const pdf = await loadingTask.promise;
-        const page = await pdf.getPage(1);
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-        const context = canvas.getContext('2d');
-        const viewport = page.getViewport({ scale: 2.0 });
-        canvas.height = viewport.height;
-        canvas.width = viewport.width;
-        const renderContext = { canvasContext: context, viewport: viewport };
-        await page.render(renderContext).promise;
-        setLoading(false);
-      } catch (err) {
-        console.error("Error rendering PDF:", err);
-        setError("Could not render PDF preview.");
-        setLoading(false);
-      }
-    };
-    renderPdf();
-  }, [dataUrl]);
-
-  if (error) {
-    return (
-        <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
-            <DocumentIcon className="w-12 h-12 mb-3 opacity-50 text-red-400" />
-            <p className="text-sm mb-2 text-red-400/80">{error}</p>
-        </div>
-    );
-  }
-
-  return (
-    <div className="relative w-full h-full flex items-center justify-center">
-        {loading && (
-            <div className="absolute inset-0 flex items-center justify-center z-10">
-                <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+// Binary assets can be renamed or deleted but not edited as text
+const AssetPreview = ({ file, isDirty, onSave, onRevert }: { file: ProjectFile, isDirty: boolean, onSave: () => void, onRevert: () => void }) => (
+    <div className="flex flex-col h-full bg-[#0c0c0e]">
+        <div className="px-3 py-1.5 flex items-center gap-2 border-b border-zinc-800 shrink-0">
+            <span className="text-[10px] font-mono text-zinc-400 truncate">{file.path}</span>
+            <span className="text-[10px] font-mono text-zinc-600">{(file.content.length * 0.75 / 1024).toFixed(1)} KB</span>
+            <div className="ml-auto flex items-center gap-1">
+                <button onClick={onRevert} disabled={!isDirty} className="text-[10px] text-zinc-500 hover:text-zinc-300 disabled:opacity-30 px-2 py-0.5">Discard</button>
+                <button onClick={onSave} disabled={!isDirty} className="text-[10px] font-bold text-zinc-200 disabled:text-zinc-600 border border-zinc-700 disabled:border-zinc-800 hover:bg-zinc-800 px-2 py-0.5 rounded transition-colors">Save</button>
             </div>
-        )}
-        <canvas 
-            ref={canvasRef} 
-            className={`max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded transition-opacity duration-500 ${loading ? 'opacity-0' : 'opacity-100'}`}
-        />
+        </div>
+        <div className="flex-1 flex items-center justify-center p-6 min-h-0 bg-[repeating-conic-gradient(#18181b_0%_25%,#0c0c0e_0%_50%)] bg-[length:16px_16px]">
+            {getAssetMimeType(file.path)?.startsWith('image/') ? (
+                <img src={file.content} alt={file.path} className="max-w-full max-h-full object-contain" />
+            ) : (
+                <span className="text-xs font-mono text-zinc-500">No preview for this file type</span>
+            )}
+        </div>
     </div>
-  );
-};
+);
 
-export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, isFocused, onReset }) => {
-    const [loadingStep, setLoadingStep] = useState(0);
+export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, progress, isFocused, onReset, onCancel, onRefine, isRefining, onRestoreRevision, onConsoleLog, autoFix, onAutoFixChange, onFixErrors, repairStatus, onSaveHtml, onSaveFiles, onReuseSettings, onUseAlternate }) => {
+    const [renderedPartial, setRenderedPartial] = useState('');
+    const lastPartialRenderRef = useRef(0);
     const [showSplitView, setShowSplitView] = useState(false);
+    const [inputIndex, setInputIndex] = useState(0);
+    const [hoveredDetection, setHoveredDetection] = useState<number | null>(null);
+    const detectionRowsRef = useRef<(HTMLDivElement | null)[]>([]);
     const [showVisionInsights, setShowVisionInsights] = useState(true);
+    const [showRefinePanel, setShowRefinePanel] = useState(false);
+    const [showTimeline, setShowTimeline] = useState(false);
+    const [viewRevisionId, setViewRevisionId] = useState<string | null>(null);
+    const [showDiff, setShowDiff] = useState(false);
+    const [sandboxCsp, setSandboxCspState] = useState(getSandboxCsp);
+    const [consoleLog, setConsoleLog] = useState<ConsoleEntry[]>([]);
+    const [showConsole, setShowConsole] = useState(false);
+    const [layout, setLayout] = useState<EditorLayout>('preview');
+    const [draftFiles, setDraftFiles] = useState<ProjectFile[]>([]);
+    const [activePath, setActivePath] = useState('index.html');
+    const [liveHtml, setLiveHtml] = useState('');
+    const [showDevices, setShowDevices] = useState(false);
+    const [viewport, setViewport] = useState<ViewportSettings>(DEFAULT_VIEWPORT);
+    const [compareBreakpoints, setCompareBreakpoints] = useState(false);
+    const creationRef = useRef(creation);
+    creationRef.current = creation;
+    const onConsoleLogRef = useRef(onConsoleLog);
+    onConsoleLogRef.current = onConsoleLog;
+
+    const revisions = creation ? getRevisions(creation) : [];
+    const latestRevision = revisions[revisions.length - 1];
+    const viewedRevision = revisions.find(r => r.id === viewRevisionId) || latestRevision;
+    const previewHtml = viewedRevision?.html ?? creation?.html;
+    const isViewingLatest = !viewedRevision || viewedRevision.id === latestRevision.id;
+    const target = creation ? getArtifactTarget(creation) : 'html';
+    const savedFiles = useMemo(() => creation ? getSourceFiles(creation) : [], [creation?.html, creation?.files]);
+    const activeFile = draftFiles.find(f => f.path === activePath) || draftFiles[0];
+    const isDirty = !!creation && !sameProjectFiles(draftFiles, savedFiles);
+    // Single-document creations can be split once; after that they are edited as files
+    const splitFiles = useMemo(() => creation && !creation.files ? splitHtmlDocument(creation.html) : null, [creation?.html, creation?.files]);
+    const frameHtml = isDirty ? liveHtml : previewHtml;
+    const consoleIssues = countConsoleIssues(consoleLog);
 
-    // Handle loading animation steps
+    // Throttle partial document renders so the iframe isn't reloaded on every chunk
     useEffect(() => {
-        if (isLoading) {
-            setLoadingStep(0);
-            const interval = setInterval(() => {
-                setLoadingStep(prev => (prev < 3 ? prev + 1 : prev));
-            }, 2000); 
-            return () => clearInterval(interval);
-        } else {
-            setLoadingStep(0);
+        const html = isLoading ? progress?.partialHtml || '' : '';
+        if (!html) {
+            setRenderedPartial('');
+            return;
         }
-    }, [isLoading]);
+        const wait = Math.max(0, PARTIAL_RENDER_INTERVAL - (Date.now() - lastPartialRenderRef.current));
+        const timer = setTimeout(() => {
+            lastPartialRenderRef.current = Date.now();
+            setRenderedPartial(html);
+        }, wait);
+        return () => clearTimeout(timer);
+    }, [isLoading, progress?.partialHtml]);
+
+    const stage = progress?.stage;
+    const receivedKb = ((progress?.receivedChars || 0) / 1024).toFixed(1);
+
+    // Inputs that can be shown next to the app, in the order they were sent
+    const inputs = useMemo(() => creation ? getInputs(creation).filter(input => input.data) : [], [creation]);
+    const activeInput = inputs[Math.min(inputIndex, inputs.length - 1)];
+    // After a review, only the approved components were used
+    const detections = creation?.approvedIdentifications ?? creation?.identifications;
+    const inputBoxes = useMemo(() => (detections || []).flatMap((d, key) =>
+        d.box && !d.page && (d.inputId ? d.inputId === activeInput?.id : activeInput === inputs[0]) ? [{ key, label: d.label, box: d.box }] : []
+    ), [detections, activeInput, inputs]);
+
+    // Bring the row for a hovered box into view
+    useEffect(() => {
+        if (hoveredDetection !== null) detectionRowsRef.current[hoveredDetection]?.scrollIntoView({ block: 'nearest' });
+    }, [hoveredDetection]);
 
     // Default to Split View when a new creation with an image is loaded
     useEffect(() => {
-        if (creation?.originalImage) {
+        setInputIndex(0);
+        if (inputs.length > 0) {
             setShowSplitView(true);
         } else {
             setShowSplitView(false);
         }
-    }, [creation]);
-
-    const handleExport = () => {
-        if (!creation) return;
-        const dataStr = JSON.stringify(creation, null, 2);
-        const blob = new Blob([dataStr], { type: "application/json" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${creation.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_artifact.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+    }, [creation?.id, inputs.length > 0]);
+
+    // The editor always starts from the current sources; new revisions replace any draft
+    useEffect(() => {
+        setDraftFiles(savedFiles);
+        setLiveHtml(creation?.html || '');
+        setActivePath(path => savedFiles.some(f => f.path === path) ? path : savedFiles[0]?.path || 'index.html');
+    }, [creation?.id, savedFiles]);
+
+    useEffect(() => {
+        if (!isDirty) return;
+        const timer = setTimeout(() => setLiveHtml(buildPreviewHtml(target, draftFiles)), LIVE_RELOAD_DELAY);
+        return () => clearTimeout(timer);
+    }, [draftFiles]);
+
+    // Jump back to the latest revision whenever a new one lands or a different creation opens
+    useEffect(() => {
+        setViewRevisionId(null);
+        setShowDiff(false);
+    }, [creation?.id, revisions.length]);
+
+    // Every reload of the preview starts a fresh console run
+    useEffect(() => {
+        setConsoleLog([]);
+    }, [frameHtml, sandboxCsp, compareBreakpoints]);
+
+    // Save the latest revision's run with the creation so broken artifacts show up in the library
+    useEffect(() => {
+        const current = creationRef.current;
+        if (!current || isLoading || !isViewingLatest || isDirty) return;
+        const timer = setTimeout(() => {
+            if (JSON.stringify(consoleLog) !== JSON.stringify(current.consoleLog || [])) onConsoleLogRef.current(current.id, consoleLog);
+        }, CONSOLE_SAVE_DELAY);
+        return () => clearTimeout(timer);
+    }, [consoleLog, isLoading, isViewingLatest, isDirty]);
+
+    const handleConsoleEntry = (entry: ConsoleEntry) => {
+        setConsoleLog(log => appendConsoleEntry(log, entry));
+    };
+
+    const handleCspChange = (csp: string) => {
+        setSandboxCsp(csp);
+        setSandboxCspState(csp);
+    };
+
+    const toggleDevices = () => {
+        // Closing the toolbar goes back to a full-size preview
+        if (showDevices) {
+            setViewport(v => ({ ...v, device: 'fill' }));
+            setCompareBreakpoints(false);
+        }
+        setShowDevices(!showDevices);
+    };
+
+    const handleLayoutChange = (next: EditorLayout) => {
+        // Edits apply to the latest revision, so show that while the editor is open
+        if (next !== 'preview') setViewRevisionId(null);
+        setLayout(next);
+    };
+
+    const handleEditFile = (content: string) => {
+        setDraftFiles(files => files.map(f => f.path === activeFile?.path ? { ...f, content } : f));
+    };
+
+    const handleCreateFile = (path: string) => {
+        setDraftFiles(files => [...files, { path, content: '' }]);
+        setActivePath(path);
+    };
+
+    const handleRenameFile = (from: string, to: string) => {
+        setDraftFiles(files => files.map(f => f.path === from ? { ...f, path: to } : f));
+        if (activePath === from) setActivePath(to);
+    };
+
+    const handleDeleteFile = (path: string) => {
+        setDraftFiles(files => files.filter(f => f.path !== path));
+    };
+
+    const handleSaveCode = () => {
+        if (!isDirty) return;
+        if (creation?.files) {
+            // Only edited files are formatted, so saving never rewrites untouched sources
+            const formatted = draftFiles.map(f => savedFiles.some(saved => saved.path === f.path && saved.content === f.content) ? f : formatProjectFile(f));
+            setDraftFiles(formatted);
+            if (!sameProjectFiles(formatted, savedFiles)) onSaveFiles(formatted);
+            return;
+        }
+        const formatted = formatHtml(draftFiles[0].content);
+        setDraftFiles([{ path: 'index.html', content: formatted }]);
+        onSaveHtml(formatted);
+    };
+
+    const handleRestore = (revisionId: string) => {
+        setShowDiff(false);
+        onRestoreRevision(revisionId);
     };
 
   return (
@@ -172,10 +335,26 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
             </span>
         </div>
 
-        <div className="flex items-center justify-end space-x-1 w-32">
+        <div className="flex items-center justify-end space-x-1 min-w-[8rem]">
+            {isLoading && (
+                <button onClick={onCancel} className="flex items-center space-x-1 text-xs font-bold text-red-300 border border-red-500/30 hover:bg-red-500/10 px-3 py-1.5 rounded-md transition-colors">
+                    <StopIcon className="w-3 h-3" /><span>Cancel</span>
+                </button>
+            )}
             {!isLoading && creation && (
                 <>
-                    {creation.identifications && (
+                    <div className="flex items-center bg-zinc-900 border border-zinc-800 rounded-md p-0.5 mr-1">
+                        {LAYOUTS.map(({ id, label }) => (
+                            <button
+                                key={id}
+                                onClick={() => handleLayoutChange(id)}
+                                className={`px-2 py-0.5 rounded text-[10px] font-mono uppercase transition-colors ${layout === id ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+                            >
+                                {label}{id !== 'preview' && isDirty ? '*' : ''}
+                            </button>
+                        ))}
+                    </div>
+                    {detections && (
                         <button 
                             onClick={() => setShowVisionInsights(!showVisionInsights)}
                             title="Toggle Vision Insights"
@@ -184,7 +363,7 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                             <MagnifyingGlassIcon className="w-4 h-4" />
                         </button>
                     )}
-                    {creation.originalImage && (
+                    {activeInput && (
                          <button 
                             onClick={() => setShowSplitView(!showSplitView)}
                             title={showSplitView ? "Show App Only" : "Compare with Original"}
@@ -193,15 +372,75 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                             <ViewColumnsIcon className="w-4 h-4" />
                         </button>
                     )}
-                    <button onClick={handleExport} className="text-zinc-500 hover:text-zinc-300 p-1.5 rounded-md hover:bg-zinc-800"><ArrowDownTrayIcon className="w-4 h-4" /></button>
+                    <button 
+                        onClick={toggleDevices}
+                        title="Device Preview"
+                        className={`p-1.5 rounded-md transition-all ${showDevices ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+                    >
+                        <DevicePhoneMobileIcon className="w-4 h-4" />
+                    </button>
+                    <button 
+                        onClick={() => setShowTimeline(!showTimeline)}
+                        title="Revision History"
+                        className={`relative p-1.5 rounded-md transition-all ${showTimeline ? 'bg-zinc-800 text-amber-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+                    >
+                        <ClockIcon className="w-4 h-4" />
+                        {revisions.length > 1 && <span className="absolute -top-0.5 -right-0.5 text-[8px] font-mono bg-zinc-700 text-zinc-200 rounded-full px-1">{revisions.length}</span>}
+                    </button>
+                    <button 
+                        onClick={() => setShowConsole(!showConsole)}
+                        title="Console"
+                        className={`relative p-1.5 rounded-md transition-all ${showConsole ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+                    >
+                        <CommandLineIcon className="w-4 h-4" />
+                        {consoleIssues.errors > 0 ? (
+                            <span className="absolute -top-0.5 -right-0.5 text-[8px] font-mono bg-red-500 text-white rounded-full px-1">{consoleIssues.errors}</span>
+                        ) : consoleIssues.warnings > 0 && (
+                            <span className="absolute -top-0.5 -right-0.5 text-[8px] font-mono bg-amber-500 text-black rounded-full px-1">{consoleIssues.warnings}</span>
+                        )}
+                    </button>
+                    <button 
+                        onClick={() => setShowRefinePanel(!showRefinePanel)}
+                        title="Refine with Follow-up Instructions"
+                        className={`p-1.5 rounded-md transition-all ${showRefinePanel ? 'bg-zinc-800 text-blue-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+                    >
+                        <ChatBubbleLeftRightIcon className="w-4 h-4" />
+                    </button>
+                    {creation.warnings && creation.warnings.length > 0 && <ArtifactWarnings warnings={creation.warnings} />}
+                    {creation.generation && <GenerationParamsMenu params={creation.generation} onReuse={onReuseSettings} />}
+                    {creation.alternates && <AlternatesMenu alternates={creation.alternates} onUse={onUseAlternate} />}
+                    <SandboxSettings csp={sandboxCsp} onChange={handleCspChange} />
+                    <ExportMenu creation={creation} />
                     <button onClick={onReset} className="ml-2 flex items-center space-x-1 text-xs font-bold bg-white text-black hover:bg-zinc-200 px-3 py-1.5 rounded-md transition-colors"><PlusIcon className="w-3 h-3" /><span className="hidden sm:inline">New</span></button>
                 </>
             )}
         </div>
       </div>
 
+      {!isLoading && creation && showDevices && (
+        <DeviceToolbar settings={viewport} onChange={setViewport} compare={compareBreakpoints} onCompareChange={setCompareBreakpoints} />
+      )}
+
+      {!isLoading && creation && showTimeline && latestRevision && (
+        <RevisionTimeline
+            revisions={revisions}
+            selectedId={viewedRevision.id}
+            onSelect={setViewRevisionId}
+            onRestore={handleRestore}
+            onCompare={() => setShowDiff(true)}
+        />
+      )}
+
       <div className="relative w-full flex-1 bg-[#09090b] flex overflow-hidden">
-        {isLoading ? (
+        {isLoading && renderedPartial ? (
+          <div className="relative w-full h-full bg-white">
+               <SandboxFrame title="Streaming Preview" html={renderedPartial} csp={sandboxCsp} />
+              <div className="absolute bottom-4 right-4 bg-black/85 backdrop-blur text-zinc-300 text-[10px] font-mono uppercase px-3 py-2 rounded-lg border border-zinc-800 flex items-center gap-2 shadow-2xl">
+                  <div className="w-1.5 h-1.5 bg-blue-400 rounded-full animate-pulse"></div>
+                  Streaming Artifact · {receivedKb} KB
+              </div>
+          </div>
+        ) : isLoading ? (
           <div className="absolute inset-0 flex flex-col items-center justify-center p-8 w-full">
              <div className="w-full max-w-md space-y-8">
                 <div className="flex flex-col items-center">
@@ -211,38 +450,94 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                         </svg>
                     </div>
                     <h3 className="text-zinc-100 font-mono text-lg tracking-tight">Constructing Environment</h3>
-                    <p className="text-zinc-500 text-sm mt-2">Invoking YOLO26 Vision Engine...</p>
+                    <p className="text-zinc-500 text-sm mt-2 text-center line-clamp-2">
+                        {progress?.thinking || (stage === 'identifying' ? 'Invoking YOLO26 Vision Engine...' : stage === 'reviewing' ? 'Waiting for you to review the identified components...' : 'Reasoning about the artifact...')}
+                    </p>
                 </div>
                 <div className="w-full h-1 bg-zinc-800 rounded-full overflow-hidden">
                     <div className="h-full bg-blue-500 animate-[loading_3s_ease-in-out_infinite] w-1/3"></div>
                 </div>
                  <div className="border border-zinc-800 bg-black/50 rounded-lg p-4 space-y-3 font-mono text-sm">
-                     <LoadingStep text="YOLO26 Image Scan" active={loadingStep === 0} completed={loadingStep > 0} />
-                     <LoadingStep text="Component Identification" active={loadingStep === 1} completed={loadingStep > 1} />
-                     <LoadingStep text="UI Logic Generation" active={loadingStep === 2} completed={loadingStep > 2} />
-                     <LoadingStep text="Artifact Compilation" active={loadingStep === 3} completed={loadingStep > 3} />
+                     {progress?.scanned && (
+                         <>
+                             <LoadingStep text="YOLO26 Image Scan" active={stage === 'identifying'} completed={stage !== 'identifying'} />
+                             <LoadingStep text={stage === 'identifying' ? 'Component Identification' : `Component Identification · ${progress.detections} found`} active={stage === 'reviewing'} completed={stage !== 'identifying' && stage !== 'reviewing'} />
+                         </>
+                     )}
+                     <LoadingStep text="UI Logic Generation" active={stage === 'generating'} completed={stage === 'streaming'} />
+                     <LoadingStep text={stage === 'streaming' ? `Artifact Compilation · ${receivedKb} KB` : 'Artifact Compilation'} active={stage === 'streaming'} completed={false} />
                  </div>
              </div>
           </div>
         ) : creation?.html ? (
           <>
-            {showSplitView && creation.originalImage && (
+            {layout !== 'preview' && (
+                <div className={`h-full min-w-0 flex ${layout === 'split' ? 'w-1/2 border-r border-zinc-800' : 'flex-1'}`}>
+                    <FileTree
+                        files={draftFiles}
+                        savedFiles={savedFiles}
+                        activePath={activeFile?.path || ''}
+                        onSelect={setActivePath}
+                        onCreate={creation.files ? handleCreateFile : undefined}
+                        onRename={creation.files ? handleRenameFile : undefined}
+                        onDelete={creation.files ? handleDeleteFile : undefined}
+                        onSplit={splitFiles && !isDirty ? () => onSaveFiles(splitFiles, 'Split into files') : undefined}
+                    />
+                    <div className="flex-1 min-w-0 min-h-0">
+                        {activeFile && isBinaryContent(activeFile.content) ? (
+                            <AssetPreview file={activeFile} isDirty={isDirty} onSave={handleSaveCode} onRevert={() => setDraftFiles(savedFiles)} />
+                        ) : (
+                            <CodeEditor
+                                path={activeFile?.path}
+                                value={activeFile?.content || ''}
+                                isDirty={isDirty}
+                                onChange={handleEditFile}
+                                onSave={handleSaveCode}
+                                onRevert={() => setDraftFiles(savedFiles)}
+                            />
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {layout === 'preview' && showSplitView && activeInput?.data && (
                 <div className="w-full md:w-1/2 h-1/2 md:h-full border-b md:border-b-0 md:border-r border-zinc-800 bg-[#0c0c0e] relative flex flex-col shrink-0">
                     <div className="absolute top-4 left-4 z-10 bg-black/80 backdrop-blur text-zinc-400 text-[10px] font-mono uppercase px-2 py-1 rounded border border-zinc-800 flex items-center gap-2">
                         <div className="w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse"></div>
                         YOLO26 Scan: Complete
                     </div>
+
+                    {inputs.length > 1 && (
+                        <div className="absolute top-4 right-4 z-10 flex items-center gap-1 bg-black/80 backdrop-blur border border-zinc-800 rounded-md p-0.5">
+                            {inputs.map((input, idx) => (
+                                <button
+                                    key={input.id}
+                                    onClick={() => setInputIndex(idx)}
+                                    title={input.caption ? `${input.name} — ${input.caption}` : input.name}
+                                    className={`min-w-[1.5rem] px-1.5 py-0.5 rounded text-[10px] font-mono transition-colors ${input === activeInput ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-500 hover:text-zinc-300'}`}
+                                >
+                                    {idx + 1}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                     
                     {/* Vision Insights Drawer */}
-                    {showVisionInsights && creation.identifications && (
+                    {showVisionInsights && detections && (
                         <div className="absolute bottom-4 left-4 right-4 z-20 bg-zinc-900/95 backdrop-blur-xl border border-zinc-800 rounded-xl p-4 shadow-2xl max-h-[40%] overflow-y-auto animate-in slide-in-from-bottom-4 duration-500">
                             <div className="flex items-center justify-between mb-3">
-                                <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Identified Elements</span>
-                                <span className="text-[10px] font-mono text-blue-400">{creation.identifications.length} Objects</span>
+                                <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">{creation.approvedIdentifications ? 'Approved Elements' : 'Identified Elements'}</span>
+                                <span className="text-[10px] font-mono text-blue-400">{detections.length} Objects</span>
                             </div>
                             <div className="grid grid-cols-1 gap-2">
-                                {creation.identifications.map((id, idx) => (
-                                    <div key={idx} className="flex items-start justify-between p-2 rounded bg-zinc-800/50 border border-zinc-700/30 group">
+                                {detections.map((id, idx) => (
+                                    <div
+                                        key={idx}
+                                        ref={el => { detectionRowsRef.current[idx] = el; }}
+                                        onMouseEnter={() => setHoveredDetection(idx)}
+                                        onMouseLeave={() => setHoveredDetection(null)}
+                                        className={`flex items-start justify-between p-2 rounded border group transition-colors ${hoveredDetection === idx ? 'bg-blue-500/10 border-blue-500/40' : 'bg-zinc-800/50 border-zinc-700/30'}`}
+                                    >
                                         <div className="flex flex-col">
                                             <span className="text-xs font-bold text-zinc-100">{id.label}</span>
                                             <span className="text-[10px] text-zinc-500">{id.description}</span>
@@ -263,27 +558,85 @@ export const LivePreview: React.FC<LivePreviewProps> = ({ creation, isLoading, i
                             <div className="w-full h-px bg-blue-500/50 shadow-[0_0_15px_rgba(59,130,246,0.5)] animate-[scan_4s_linear_infinite]"></div>
                         </div>
                         
-                        {creation.originalImage.startsWith('data:application/pdf') ? (
-                            <PdfRenderer dataUrl={creation.originalImage} />
+                        {activeInput.mimeType === 'application/pdf' ? (
+                            <PdfViewer dataUrl={activeInput.data} includedPages={activeInput.pages} />
                         ) : (
-                            <img 
-                                src={creation.originalImage} 
-                                alt="Original Input" 
-                                className="max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded"
+                            <DetectionOverlay
+                                src={activeInput.data}
+                                alt={activeInput.caption || "Original Input"}
+                                boxes={showVisionInsights ? inputBoxes : []}
+                                highlighted={hoveredDetection}
+                                onHighlight={setHoveredDetection}
+                                imageClassName="shadow-xl border border-zinc-800/50 rounded"
                             />
                         )}
                     </div>
+                    {activeInput.caption && (
+                        <p className="px-6 pb-3 -mt-3 text-[11px] text-zinc-500 text-center truncate shrink-0">{activeInput.caption}</p>
+                    )}
                 </div>
             )}
 
-            <div className={`relative h-full bg-white transition-all duration-500 ${showSplitView && creation.originalImage ? 'w-full md:w-1/2 h-1/2 md:h-full' : 'w-full'}`}>
-                 <iframe
-                    title="Gemini Live Preview"
-                    srcDoc={creation.html}
-                    className="w-full h-full"
-                    sandbox="allow-scripts allow-forms allow-popups allow-modals allow-same-origin"
-                />
+            <div className={`relative h-full bg-white transition-all duration-500 flex-1 min-w-0 ${layout === 'code' ? 'hidden' : ''} ${layout === 'preview' && showSplitView && activeInput ? 'h-1/2 md:h-full' : ''}`}>
+                 {compareBreakpoints ? (
+                    <BreakpointCompare html={frameHtml || ''} csp={sandboxCsp} namespace={creation.id} />
+                 ) : (
+                    <DeviceViewport size={getViewportSize(viewport)} zoom={viewport.zoom} bezel={viewport.device === 'phone' || viewport.device === 'tablet'}>
+                        <SandboxFrame title="Gemini Live Preview" html={frameHtml || ''} csp={sandboxCsp} namespace={creation.id} onConsole={handleConsoleEntry} />
+                    </DeviceViewport>
+                 )}
+                {isDirty && (
+                    <div className="absolute top-3 left-1/2 -translate-x-1/2 bg-black/80 backdrop-blur text-sky-300 text-[10px] font-mono uppercase px-3 py-1 rounded-full border border-sky-500/30">
+                        Unsaved Edits
+                    </div>
+                )}
+                {!isDirty && viewedRevision && viewedRevision.id !== latestRevision.id && (
+                    <div className="absolute top-3 left-1/2 -translate-x-1/2 bg-black/80 backdrop-blur text-amber-300 text-[10px] font-mono uppercase px-3 py-1 rounded-full border border-amber-500/30">
+                        Viewing v{revisions.indexOf(viewedRevision) + 1} of {revisions.length}
+                    </div>
+                )}
+                {showConsole && (
+                    <ConsolePanel
+                        entries={consoleLog}
+                        onClear={() => setConsoleLog([])}
+                        onClose={() => setShowConsole(false)}
+                        autoFix={autoFix}
+                        onAutoFixChange={onAutoFixChange}
+                        onFix={isViewingLatest && !isDirty && !isRefining ? () => onFixErrors(collectRuntimeErrors(consoleLog)) : undefined}
+                    />
+                )}
+                {isRefining && (
+                    <div className="absolute inset-0 bg-black/40 backdrop-blur-[2px] flex flex-col items-center justify-center gap-3">
+                        <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                        {repairStatus && (
+                            <div className="flex items-center gap-3 bg-black/85 text-emerald-300 text-[10px] font-mono uppercase px-3 py-2 rounded-lg border border-emerald-500/30">
+                                Auto-fix round {repairStatus.round} of {repairStatus.maxRounds}
+                                <button onClick={onCancel} className="text-red-300 hover:text-red-200">Cancel</button>
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
+
+            {showDiff && revisions.length > 1 && (
+                <RevisionDiff
+                    revisions={revisions}
+                    initialLeftId={viewedRevision.id !== latestRevision.id ? viewedRevision.id : revisions[revisions.length - 2].id}
+                    initialRightId={latestRevision.id}
+                    onRestore={handleRestore}
+                    onClose={() => setShowDiff(false)}
+                />
+            )}
+
+            {showRefinePanel && (
+                <RefinePanel
+                    thread={creation.refinements || []}
+                    isRefining={isRefining}
+                    onRefine={onRefine}
+                    onCancel={onCancel}
+                    onClose={() => setShowRefinePanel(false)}
+                />
+            )}
           </>
         ) : null}
       </div>
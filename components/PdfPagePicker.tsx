@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { CheckIcon } from '@heroicons/react/24/outline';
+import { MAX_PDF_PAGES, PdfPageInfo } from '../services/pdf';
+
+interface PdfPagePickerProps {
+  pages: PdfPageInfo[] | null; // null while the document is being read
+  error: string | null;
+  selected: number[];
+  onChange: (selected: number[]) => void;
+}
+
+export const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ pages, error, selected, onChange }) => {
+  if (error) {
+    return <p className="px-4 pt-2 text-[11px] text-red-400/80">{error}</p>;
+  }
+  if (!pages) {
+    return (
+      <div className="px-4 pt-2 flex items-center gap-2 text-[10px] font-mono uppercase text-zinc-500">
+        <div className="w-3 h-3 border-2 border-zinc-600 border-t-transparent rounded-full animate-spin" />
+        Reading pages...
+      </div>
+    );
+  }
+
+  const toggle = (number: number) => {
+    if (selected.includes(number)) onChange(selected.filter(n => n !== number));
+    else if (selected.length < MAX_PDF_PAGES) onChange([...selected, number].sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="px-4 pt-2 animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex items-center gap-3 mb-2 text-[10px] font-mono uppercase text-zinc-500">
+        <span>{selected.length} of {pages.length} pages</span>
+        <button type="button" onClick={() => onChange(pages.slice(0, MAX_PDF_PAGES).map(p => p.number))} className="hover:text-zinc-300">All</button>
+        <button type="button" onClick={() => onChange([])} className="hover:text-zinc-300">None</button>
+        {pages.length > MAX_PDF_PAGES && <span className="text-zinc-600 normal-case">Up to {MAX_PDF_PAGES} pages per generation</span>}
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
+        {pages.map(page => {
+          const isSelected = selected.includes(page.number);
+          return (
+            <button
+              type="button"
+              key={page.number}
+              onClick={() => toggle(page.number)}
+              title={page.text ? page.text.slice(0, 200) : 'No extractable text'}
+              className={`relative shrink-0 w-16 rounded border overflow-hidden transition-all ${isSelected ? 'border-blue-500 ring-1 ring-blue-500/40' : 'border-zinc-700 opacity-50 hover:opacity-80'}`}
+            >
+              <img src={page.thumbnail} alt={`Page ${page.number}`} className="w-full h-auto block bg-white" />
+              <span className="absolute bottom-0 inset-x-0 bg-black/70 text-[9px] font-mono text-zinc-300 text-center">{page.number}</span>
+              {isSelected && (
+                <span className="absolute top-0.5 right-0.5 bg-blue-500 rounded-sm">
+                  <CheckIcon className="w-2.5 h-2.5 text-white" />
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, DocumentIcon } from '@heroicons/react/24/outline';
+import { openPdf } from '../services/pdf';
+
+interface PdfViewerProps {
+  dataUrl: string;
+  includedPages?: number[]; // Pages that were sent to the model
+}
+
+export const PdfViewer: React.FC<PdfViewerProps> = ({ dataUrl, includedPages }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<any>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPdf(null);
+    setError(null);
+    setLoading(true);
+    setPageNumber(includedPages?.[0] || 1);
+    openPdf(dataUrl)
+      .then(doc => { if (cancelled) doc.destroy(); else setPdf(doc); })
+      .catch(err => {
+        console.error("Error loading PDF:", err);
+        if (!cancelled) {
+          setError(err?.message === "PDF library not initialized" ? err.message : "Could not render PDF preview.");
+          setLoading(false);
+        }
+      });
+    return () => { cancelled = true; };
+  }, [dataUrl]);
+
+  // Free the PDF.js document and its worker state when it's replaced or the viewer closes
+  useEffect(() => () => { pdf?.destroy(); }, [pdf]);
+
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    let task: any = null;
+    const renderPage = async () => {
+      try {
+        setLoading(true);
+        const page = await pdf.getPage(pageNumber);
+        const canvas = canvasRef.current;
+        if (!canvas || cancelled) return;
+        const context = canvas.getContext('2d');
+        const viewport = page.getViewport({ scale: 2.0 });
+        canvas.height = viewport.height;
+        canvas.width = viewport.width;
+        task = page.render({ canvasContext: context, viewport });
+        await task.promise;
+        if (!cancelled) setLoading(false);
+      } catch (err: any) {
+        // Flipping pages quickly cancels the previous render
+        if (cancelled || err?.name === 'RenderingCancelledException') return;
+        console.error("Error rendering PDF:", err);
+        setError("Could not render PDF preview.");
+        setLoading(false);
+      }
+    };
+    renderPage();
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, pageNumber]);
+
+  if (error) {
+    return (
+        <div className="flex flex-col items-center justify-center h-full text-zinc-500 p-6 text-center">
+            <DocumentIcon className="w-12 h-12 mb-3 opacity-50 text-red-400" />
+            <p className="text-sm mb-2 text-red-400/80">{error}</p>
+        </div>
+    );
+  }
+
+  const pageCount = pdf?.numPages || 0;
+  const isIncluded = !includedPages || includedPages.includes(pageNumber);
+
+  return (
+    <div className="relative w-full h-full flex flex-col items-center justify-center gap-3">
+        <div className="relative flex-1 min-h-0 w-full flex items-center justify-center">
+            {loading && (
+                <div className="absolute inset-0 flex items-center justify-center z-10">
+                    <div className="w-6 h-6 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                </div>
+            )}
+            <canvas
+                ref={canvasRef}
+                className={`max-w-full max-h-full object-contain shadow-xl border border-zinc-800/50 rounded transition-opacity duration-500 ${loading ? 'opacity-0' : isIncluded ? 'opacity-100' : 'opacity-40'}`}
+            />
+        </div>
+        {pageCount > 1 && (
+            <div className="relative z-10 flex items-center gap-2 bg-black/80 backdrop-blur border border-zinc-800 rounded-full px-2 py-1 text-[10px] font-mono text-zinc-400 shrink-0">
+                <button onClick={() => setPageNumber(n => Math.max(1, n - 1))} disabled={pageNumber <= 1} className="p-0.5 hover:text-zinc-100 disabled:opacity-30">
+                    <ChevronLeftIcon className="w-3.5 h-3.5" />
+                </button>
+                <span>Page {pageNumber} / {pageCount}</span>
+                {includedPages && (
+                    <span className={isIncluded ? 'text-blue-400' : 'text-zinc-600'}>{isIncluded ? 'Included' : 'Skipped'}</span>
+                )}
+                <button onClick={() => setPageNumber(n => Math.min(pageCount, n + 1))} disabled={pageNumber >= pageCount} className="p-0.5 hover:text-zinc-100 disabled:opacity-30">
+                    <ChevronRightIcon className="w-3.5 h-3.5" />
+                </button>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef, useEffect } from 'react';
+import { ArrowUpIcon, ChatBubbleLeftRightIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { RefinementMessage } from '../services/gemini';
+
+interface RefinePanelProps {
+  thread: RefinementMessage[];
+  isRefining: boolean;
+  onRefine: (instruction: string) => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+export const RefinePanel: React.FC<RefinePanelProps> = ({ thread, isRefining, onRefine, onCancel, onClose }) => {
+  const [instruction, setInstruction] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [thread.length, isRefining]);
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const text = instruction.trim();
+    if (!text || isRefining) return;
+    onRefine(text);
+    setInstruction('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className="w-full md:w-80 h-full shrink-0 flex flex-col border-l border-zinc-800 bg-[#0c0c0e] animate-in slide-in-from-right-4 duration-300">
+      <div className="px-4 py-3 flex items-center justify-between border-b border-zinc-800">
+        <div className="flex items-center gap-2">
+          <ChatBubbleLeftRightIcon className="w-4 h-4 text-blue-400" />
+          <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Refine</span>
+        </div>
+        <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 p-1 rounded-md hover:bg-zinc-800">
+          <XMarkIcon className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+        {thread.length === 0 && !isRefining && (
+          <p className="text-xs text-zinc-600 text-center mt-8 leading-relaxed">
+            Describe a change, e.g. "make the board 10x10 and add an undo button".
+          </p>
+        )}
+        {thread.map((message, idx) => (
+          <div key={idx} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] rounded-xl px-3 py-2 text-xs leading-relaxed ${message.role === 'user' ? 'bg-zinc-100 text-black' : 'bg-zinc-800/70 text-zinc-300 border border-zinc-700/30'}`}>
+              {message.text}
+              <div className={`mt-1 text-[9px] font-mono ${message.role === 'user' ? 'text-zinc-500' : 'text-zinc-600'}`}>
+                {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </div>
+            </div>
+          </div>
+        ))}
+        {isRefining && (
+          <div className="flex items-center gap-2 text-[10px] font-mono text-zinc-500 uppercase tracking-wider">
+            <div className="w-1.5 h-1.5 bg-blue-400 rounded-full animate-pulse"></div>
+            Applying changes...
+            <button onClick={onCancel} className="ml-auto text-red-300 hover:text-red-200 normal-case tracking-normal">Cancel</button>
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-3 border-t border-zinc-800">
+        <div className="flex items-end gap-2 bg-zinc-900 border border-zinc-800 focus-within:border-zinc-700 rounded-2xl p-2">
+          <textarea
+            rows={2}
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Ask for a change..."
+            disabled={isRefining}
+            className="flex-1 bg-transparent border-none focus:ring-0 text-zinc-200 placeholder-zinc-500 resize-none text-xs scrollbar-hide"
+          />
+          <button
+            type="submit"
+            disabled={!instruction.trim() || isRefining}
+            className={`p-1.5 rounded-full transition-all ${instruction.trim() && !isRefining ? 'bg-zinc-100 text-black hover:bg-white' : 'bg-zinc-800 text-zinc-600 cursor-not-allowed'}`}
+          >
+            {isRefining ? (
+              <div className="w-4 h-4 border-2 border-zinc-400 border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <ArrowUpIcon className="w-4 h-4" />
+            )}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
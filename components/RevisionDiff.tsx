@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useState } from 'react';
+import { ArrowUturnLeftIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { CreationRevision } from './CreationHistory';
+import { diffLines, getDiffStats, DiffKind } from '../services/diff';
+import { serializeProjectFiles } from '../services/project';
+
+interface RevisionDiffProps {
+  revisions: CreationRevision[];
+  initialLeftId: string;
+  initialRightId: string;
+  onRestore: (revisionId: string) => void;
+  onClose: () => void;
+}
+
+const LEFT_STYLES: Record<DiffKind, string> = {
+  same: 'text-zinc-400',
+  added: 'bg-zinc-900/60',
+  removed: 'bg-red-500/10 text-red-300',
+  changed: 'bg-red-500/10 text-red-300',
+};
+
+const RIGHT_STYLES: Record<DiffKind, string> = {
+  same: 'text-zinc-400',
+  added: 'bg-green-500/10 text-green-300',
+  removed: 'bg-zinc-900/60',
+  changed: 'bg-green-500/10 text-green-300',
+};
+
+// Revisions stored as files are compared file by file rather than as the bundled preview
+const getRevisionSource = (revision: CreationRevision) => revision.files ? serializeProjectFiles(revision.files) : revision.html;
+
+export const RevisionDiff: React.FC<RevisionDiffProps> = ({ revisions, initialLeftId, initialRightId, onRestore, onClose }) => {
+  const [leftId, setLeftId] = useState(initialLeftId);
+  const [rightId, setRightId] = useState(initialRightId);
+
+  const left = revisions.find(r => r.id === leftId) || revisions[0];
+  const right = revisions.find(r => r.id === rightId) || revisions[revisions.length - 1];
+  const latestId = revisions[revisions.length - 1]?.id;
+
+  const rows = useMemo(() => diffLines(getRevisionSource(left), getRevisionSource(right)), [left, right]);
+  const stats = useMemo(() => getDiffStats(rows), [rows]);
+
+  const renderPicker = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="bg-zinc-900 border border-zinc-800 rounded-md text-[11px] font-mono text-zinc-300 px-2 py-1 focus:outline-none focus:border-zinc-600"
+    >
+      {revisions.map((r, idx) => (
+        <option key={r.id} value={r.id}>v{idx + 1} · {r.note || r.source}</option>
+      ))}
+    </select>
+  );
+
+  const renderRestore = (revision: CreationRevision) => revision.id !== latestId && (
+    <button
+      onClick={() => onRestore(revision.id)}
+      className="flex items-center gap-1 text-[10px] font-mono uppercase tracking-wider text-zinc-400 hover:text-amber-300 px-2 py-1 rounded-md hover:bg-zinc-800"
+    >
+      <ArrowUturnLeftIcon className="w-3 h-3" />
+      Restore
+    </button>
+  );
+
+  return (
+    <div className="absolute inset-0 z-30 bg-[#09090b] flex flex-col animate-in fade-in duration-300">
+      <div className="grid grid-cols-2 border-b border-zinc-800 shrink-0">
+        <div className="flex items-center justify-between px-4 py-2 border-r border-zinc-800">
+          {renderPicker(left.id, setLeftId)}
+          {renderRestore(left)}
+        </div>
+        <div className="flex items-center justify-between px-4 py-2">
+          {renderPicker(right.id, setRightId)}
+          <div className="flex items-center gap-3">
+            <span className="text-[10px] font-mono">
+              <span className="text-green-400">+{stats.added}</span>{' '}
+              <span className="text-red-400">-{stats.removed}</span>
+            </span>
+            {renderRestore(right)}
+            <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300 p-1 rounded-md hover:bg-zinc-800">
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto font-mono text-[11px] leading-5">
+        {rows.map((row, idx) => (
+          <div key={idx} className="grid grid-cols-2">
+            <div className={`flex border-r border-zinc-800 ${LEFT_STYLES[row.kind]}`}>
+              <span className="w-12 shrink-0 text-right pr-3 text-zinc-600 select-none">{row.left?.number ?? ''}</span>
+              <span className="whitespace-pre-wrap break-all pr-4">{row.left?.text ?? ''}</span>
+            </div>
+            <div className={`flex ${RIGHT_STYLES[row.kind]}`}>
+              <span className="w-12 shrink-0 text-right pr-3 text-zinc-600 select-none">{row.right?.number ?? ''}</span>
+              <span className="whitespace-pre-wrap break-all pr-4">{row.right?.text ?? ''}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { ArrowUturnLeftIcon, ArrowsRightLeftIcon } from '@heroicons/react/24/outline';
+import { CreationRevision } from './CreationHistory';
+
+interface RevisionTimelineProps {
+  revisions: CreationRevision[];
+  selectedId: string;
+  onSelect: (revisionId: string) => void;
+  onRestore: (revisionId: string) => void;
+  onCompare: () => void;
+}
+
+const SOURCE_COLORS: Record<string, string> = {
+  generate: 'bg-blue-400',
+  refine: 'bg-purple-400',
+  restore: 'bg-amber-400',
+  repair: 'bg-emerald-400',
+  edit: 'bg-sky-400',
+};
+
+export const RevisionTimeline: React.FC<RevisionTimelineProps> = ({ revisions, selectedId, onSelect, onRestore, onCompare }) => {
+  const latestId = revisions[revisions.length - 1]?.id;
+  const selectedIndex = revisions.findIndex(r => r.id === selectedId);
+
+  return (
+    <div className="bg-[#0c0c0e] border-b border-zinc-800 px-4 py-2 flex items-center gap-4 shrink-0 animate-in slide-in-from-top-2 duration-300">
+      <span className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest shrink-0">Revisions</span>
+
+      <div className="flex-1 flex items-center overflow-x-auto scrollbar-hide py-1">
+        {revisions.map((revision, idx) => {
+          const isSelected = revision.id === selectedId;
+          return (
+            <React.Fragment key={revision.id}>
+              {idx > 0 && <div className={`h-px w-6 shrink-0 ${idx <= selectedIndex ? 'bg-zinc-600' : 'bg-zinc-800'}`}></div>}
+              <button
+                onClick={() => onSelect(revision.id)}
+                title={`${revision.note || revision.source} · ${new Date(revision.timestamp).toLocaleString()}`}
+                className={`shrink-0 flex items-center gap-1.5 px-2 py-1 rounded-full border transition-all ${isSelected ? 'border-zinc-500 bg-zinc-800 text-zinc-100' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300 hover:border-zinc-700'}`}
+              >
+                <div className={`w-1.5 h-1.5 rounded-full ${SOURCE_COLORS[revision.source] || 'bg-zinc-500'}`}></div>
+                <span className="text-[10px] font-mono">v{idx + 1}</span>
+              </button>
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-1 shrink-0">
+        <button
+          onClick={onCompare}
+          disabled={revisions.length < 2}
+          className="flex items-center gap-1 text-[10px] font-mono uppercase tracking-wider text-zinc-400 hover:text-zinc-200 px-2 py-1 rounded-md hover:bg-zinc-800 disabled:opacity-30 disabled:pointer-events-none"
+        >
+          <ArrowsRightLeftIcon className="w-3 h-3" />
+          Diff
+        </button>
+        {selectedId !== latestId && (
+          <button
+            onClick={() => onRestore(selectedId)}
+            className="flex items-center gap-1 text-[10px] font-mono uppercase tracking-wider text-black bg-amber-400 hover:bg-amber-300 px-2 py-1 rounded-md"
+          >
+            <ArrowUturnLeftIcon className="w-3 h-3" />
+            Restore v{selectedIndex + 1}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useMemo, useRef } from 'react';
+import { SANDBOX_PERMISSIONS, attachSandboxBridge, prepareSandboxDocument } from '../services/sandbox';
+import { ConsoleEntry } from '../services/console';
+
+interface SandboxFrameProps {
+  title: string;
+  html: string;
+  csp: string;
+  namespace?: string; // Scopes the artifact's persisted storage; omitted for throwaway renders
+  onConsole?: (entry: ConsoleEntry) => void;
+}
+
+/**
+ * Renders generated HTML in an opaque-origin iframe and serves its bridge requests.
+ */
+export const SandboxFrame: React.FC<SandboxFrameProps> = ({ title, html, csp, namespace, onConsole }) => {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const onConsoleRef = useRef(onConsole);
+  onConsoleRef.current = onConsole;
+  // Storage is snapshotted into the document, so only rebuild when the inputs change
+  const srcDoc = useMemo(() => prepareSandboxDocument(html, { csp, namespace }), [html, csp, namespace]);
+
+  useEffect(() => {
+    if (!frameRef.current) return;
+    return attachSandboxBridge(frameRef.current, { namespace, onConsole: entry => onConsoleRef.current?.(entry) });
+  }, [namespace]);
+
+  return (
+    <iframe
+      ref={frameRef}
+      title={title}
+      srcDoc={srcDoc}
+      className="w-full h-full"
+      sandbox={SANDBOX_PERMISSIONS}
+    />
+  );
+};
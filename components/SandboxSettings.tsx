@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useState } from 'react';
+import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { DEFAULT_SANDBOX_CSP } from '../services/sandbox';
+
+interface SandboxSettingsProps {
+  csp: string;
+  onChange: (csp: string) => void;
+}
+
+export const SandboxSettings: React.FC<SandboxSettingsProps> = ({ csp, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(csp);
+  const isCustom = csp !== DEFAULT_SANDBOX_CSP;
+
+  useEffect(() => {
+    if (isOpen) setDraft(csp);
+  }, [isOpen, csp]);
+
+  const apply = (value: string) => {
+    onChange(value.trim() || DEFAULT_SANDBOX_CSP);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Preview Sandbox Policy"
+        className={`relative p-1.5 rounded-md transition-all ${isOpen ? 'bg-zinc-800 text-green-400' : 'text-zinc-500 hover:text-zinc-300'}`}
+      >
+        <ShieldCheckIcon className="w-4 h-4" />
+        {isCustom && <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 bg-amber-400 rounded-full" />}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-50 w-[420px] max-w-[90vw] bg-zinc-900 border border-zinc-800 rounded-xl p-3 shadow-2xl animate-in fade-in slide-in-from-top-2">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-[10px] font-bold text-zinc-400 uppercase tracking-widest">Content Security Policy</span>
+            {isCustom && <span className="text-[10px] font-mono text-amber-400">Custom</span>}
+          </div>
+          <p className="text-[11px] text-zinc-500 mb-2">
+            Artifacts run in an isolated origin. Storage, clipboard and downloads go through the app bridge; this policy controls what else they may load.
+          </p>
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            rows={7}
+            spellCheck={false}
+            className="w-full bg-black/50 border border-zinc-800 rounded-lg p-2 text-[11px] font-mono text-zinc-300 focus:outline-none focus:border-zinc-600 resize-y"
+          />
+          <div className="flex justify-end gap-2 mt-2">
+            <button onClick={() => apply(DEFAULT_SANDBOX_CSP)} className="text-xs text-zinc-400 hover:text-zinc-200 px-3 py-1.5 rounded-md transition-colors">
+              Reset to Default
+            </button>
+            <button onClick={() => apply(draft)} className="text-xs font-bold bg-white text-black hover:bg-zinc-200 px-3 py-1.5 rounded-md transition-colors">
+              Apply
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { CircleStackIcon, TrashIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Creation } from './CreationHistory';
+import { StorageEstimate, estimateCreationSize, formatBytes } from '../services/storage';
+
+interface StorageManagerProps {
+  history: Creation[];
+  estimate: StorageEstimate | null;
+  error: string | null;
+  onEvict: (ids: string[]) => void;
+}
+
+export const StorageManager: React.FC<StorageManagerProps> = ({ history, estimate, error, onEvict }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  // A failed write means the user has to make room, so surface the list straight away
+  useEffect(() => {
+    if (error) setIsOpen(true);
+  }, [error]);
+
+  if (!estimate && !error) return null;
+
+  const ratio = estimate && estimate.quota > 0 ? Math.min(estimate.usage / estimate.quota, 1) : 0;
+  const items = [...history]
+    .map(c => ({ creation: c, size: estimateCreationSize(c) }))
+    .sort((a, b) => b.size - a.size);
+
+  return (
+    <div className="w-full mt-6 px-2">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-3 group">
+        <CircleStackIcon className={`w-4 h-4 ${error ? 'text-red-400' : 'text-zinc-500'}`} />
+        <div className="flex-1 h-1 bg-zinc-800 rounded-full overflow-hidden">
+          <div className={`h-full rounded-full ${ratio > 0.9 || error ? 'bg-red-500' : 'bg-zinc-500'}`} style={{ width: `${Math.max(ratio * 100, 1)}%` }}></div>
+        </div>
+        <span className="text-[10px] font-mono text-zinc-600 group-hover:text-zinc-400 uppercase tracking-wider">
+          {estimate ? `${formatBytes(estimate.usage)}${estimate.quota ? ` / ${formatBytes(estimate.quota)}` : ''}` : 'Storage'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 border border-zinc-800 rounded-lg bg-zinc-900/50 animate-in fade-in slide-in-from-top-2 duration-300">
+          {error && (
+            <div className="flex items-center gap-2 px-4 py-2 border-b border-zinc-800 text-xs text-red-300">
+              <ExclamationTriangleIcon className="w-4 h-4 shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          <div className="max-h-56 overflow-y-auto divide-y divide-zinc-800/60">
+            {items.map(({ creation, size }) => (
+              <div key={creation.id} className="flex items-center gap-3 px-4 py-2">
+                <span className="flex-1 text-xs text-zinc-300 truncate">{creation.name}</span>
+                <span className="text-[10px] font-mono text-zinc-600">{new Date(creation.timestamp).toLocaleDateString()}</span>
+                <span className="w-16 text-right text-[10px] font-mono text-zinc-500">{formatBytes(size)}</span>
+                <button
+                  onClick={() => onEvict([creation.id])}
+                  title="Evict from Library"
+                  className="text-zinc-600 hover:text-red-400 p-1 rounded-md hover:bg-zinc-800 transition-colors"
+                >
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { SwatchIcon, CheckIcon, PencilSquareIcon, TrashIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { DEFAULT_TOKENS, DesignTokens, StylePreset, createCustomPreset } from '../services/styles';
+
+interface StylePresetPickerProps {
+  presets: StylePreset[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onSave: (preset: StylePreset) => void; // Adds or replaces a custom preset
+  onDelete: (id: string) => void;
+}
+
+const COLOR_FIELDS: { key: keyof DesignTokens['colors']; label: string }[] = [
+  { key: 'primary', label: 'Primary' },
+  { key: 'accent', label: 'Accent' },
+  { key: 'background', label: 'Background' },
+  { key: 'surface', label: 'Surface' },
+  { key: 'text', label: 'Text' },
+];
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-md text-[11px] text-zinc-200 px-2 py-1 focus:ring-0 focus:border-zinc-600";
+
+interface TokenFormProps {
+  initial: StylePreset | null;
+  onSave: (preset: StylePreset) => void;
+  onCancel: () => void;
+}
+
+const TokenForm: React.FC<TokenFormProps> = ({ initial, onSave, onCancel }) => {
+  const [name, setName] = useState(initial?.name || '');
+  const [tokens, setTokens] = useState<DesignTokens>(initial?.tokens || DEFAULT_TOKENS);
+
+  const setColor = (key: keyof DesignTokens['colors'], value: string) => {
+    setTokens(t => ({ ...t, colors: { ...t.colors, [key]: value } }));
+  };
+
+  const handleSave = () => {
+    const preset = createCustomPreset(name.trim(), {
+      ...tokens,
+      headingFontFamily: tokens.headingFontFamily?.trim() || undefined,
+      notes: tokens.notes?.trim() || undefined,
+    });
+    onSave(initial ? { ...preset, id: initial.id } : preset);
+  };
+
+  return (
+    <div className="p-3 space-y-3">
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Brand name" autoFocus className={inputClass} />
+      <div className="grid grid-cols-5 gap-2">
+        {COLOR_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex flex-col items-center gap-1 text-[9px] font-mono uppercase text-zinc-500">
+            <input
+              type="color"
+              value={/^#[0-9a-f]{6}$/i.test(tokens.colors[key]) ? tokens.colors[key] : '#000000'}
+              onChange={(e) => setColor(key, e.target.value)}
+              className="w-8 h-8 rounded-md border border-zinc-700 bg-transparent cursor-pointer p-0"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+      <input value={tokens.fontFamily} onChange={(e) => setTokens(t => ({ ...t, fontFamily: e.target.value }))} placeholder="Body font stack" className={inputClass} />
+      <div className="flex gap-2">
+        <input value={tokens.headingFontFamily || ''} onChange={(e) => setTokens(t => ({ ...t, headingFontFamily: e.target.value }))} placeholder="Heading font (optional)" className={inputClass} />
+        <input value={tokens.radius} onChange={(e) => setTokens(t => ({ ...t, radius: e.target.value }))} placeholder="Radius" className={`${inputClass} !w-20`} />
+      </div>
+      <textarea
+        value={tokens.notes || ''}
+        onChange={(e) => setTokens(t => ({ ...t, notes: e.target.value }))}
+        placeholder="Brand rules, e.g. never use pure black, buttons are pill shaped"
+        rows={3}
+        className={`${inputClass} resize-none`}
+      />
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="text-[11px] font-medium text-zinc-400 hover:text-zinc-200 px-3 py-1.5 rounded-lg">Cancel</button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!name.trim() || !tokens.fontFamily.trim() || !tokens.radius.trim()}
+          className="text-[11px] font-bold bg-white text-black hover:bg-zinc-200 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none"
+        >
+          Save Preset
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Chooses the visual style for the next generation and manages custom brand presets.
+ */
+export const StylePresetPicker: React.FC<StylePresetPickerProps> = ({ presets, selectedId, onSelect, onSave, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editing, setEditing] = useState<StylePreset | 'new' | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const selected = presets.find(p => p.id === selectedId) || presets[0];
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+        setEditing(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        title="Visual style"
+        className={`flex items-center gap-1.5 p-2 rounded-full transition-all ${isOpen ? 'text-zinc-100 bg-zinc-800' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800'}`}
+      >
+        <SwatchIcon className="w-5 h-5" />
+        <span className="hidden sm:inline text-[11px] font-medium max-w-[90px] truncate">{selected.name}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-3 w-80 bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl animate-in fade-in slide-in-from-bottom-2 z-50 overflow-hidden">
+          {editing ? (
+            <TokenForm
+              initial={editing === 'new' ? null : editing}
+              onSave={(preset) => { onSave(preset); onSelect(preset.id); setEditing(null); }}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <div className="p-2">
+              <div className="max-h-72 overflow-y-auto space-y-0.5">
+                {presets.map(preset => (
+                  <div
+                    key={preset.id}
+                    onClick={() => { onSelect(preset.id); setIsOpen(false); }}
+                    className={`group flex items-center gap-3 px-3 py-2 rounded-xl cursor-pointer transition-colors ${preset.id === selected.id ? 'bg-zinc-800' : 'hover:bg-zinc-800/60'}`}
+                  >
+                    {preset.tokens ? (
+                      <div className="flex -space-x-1 shrink-0">
+                        {[preset.tokens.colors.primary, preset.tokens.colors.accent, preset.tokens.colors.background].map((color, idx) => (
+                          <span key={idx} className="w-3.5 h-3.5 rounded-full border border-zinc-700" style={{ backgroundColor: color }} />
+                        ))}
+                      </div>
+                    ) : (
+                      <SwatchIcon className="w-4 h-4 text-zinc-500 shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="text-xs text-zinc-200 truncate">{preset.name}</div>
+                      <div className="text-[10px] text-zinc-500 truncate">{preset.description}</div>
+                    </div>
+                    {!preset.builtIn && (
+                      <div className="hidden group-hover:flex items-center gap-0.5">
+                        <button type="button" onClick={(e) => { e.stopPropagation(); setEditing(preset); }} title="Edit" className="p-1 rounded text-zinc-500 hover:text-zinc-200">
+                          <PencilSquareIcon className="w-3.5 h-3.5" />
+                        </button>
+                        <button type="button" onClick={(e) => { e.stopPropagation(); onDelete(preset.id); }} title="Delete" className="p-1 rounded text-zinc-500 hover:text-red-400">
+                          <TrashIcon className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    )}
+                    {preset.id === selected.id && <CheckIcon className="w-3.5 h-3.5 text-blue-400 shrink-0" />}
+                  </div>
+                ))}
+              </div>
+              <div className="h-px bg-zinc-800 my-1 mx-2" />
+              <button
+                type="button"
+                onClick={() => setEditing('new')}
+                className="w-full flex items-center gap-3 px-3 py-2 text-sm text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 rounded-xl transition-colors"
+              >
+                <PlusIcon className="w-4 h-4" />
+                <span>New Brand Preset</span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
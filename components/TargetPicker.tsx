@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckIcon, CodeBracketSquareIcon } from '@heroicons/react/24/outline';
+import { ARTIFACT_TARGETS, ArtifactTarget, getTargetInfo } from '../services/project';
+
+interface TargetPickerProps {
+  selected: ArtifactTarget;
+  onSelect: (target: ArtifactTarget) => void;
+}
+
+/**
+ * Chooses what the next generation outputs: one HTML document or a multi-file project.
+ */
+export const TargetPicker: React.FC<TargetPickerProps> = ({ selected, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        title="Output target"
+        className={`flex items-center gap-1.5 p-2 rounded-full transition-all ${isOpen ? 'text-zinc-100 bg-zinc-800' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800'}`}
+      >
+        <CodeBracketSquareIcon className="w-5 h-5" />
+        <span className="hidden sm:inline text-[11px] font-medium max-w-[90px] truncate">{getTargetInfo(selected).label}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-3 w-72 bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl animate-in fade-in slide-in-from-bottom-2 z-50 p-2 space-y-0.5">
+          {ARTIFACT_TARGETS.map(target => (
+            <div
+              key={target.id}
+              onClick={() => { onSelect(target.id); setIsOpen(false); }}
+              className={`flex items-center gap-3 px-3 py-2 rounded-xl cursor-pointer transition-colors ${target.id === selected ? 'bg-zinc-800' : 'hover:bg-zinc-800/60'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-xs text-zinc-200 truncate">{target.label}</div>
+                <div className="text-[10px] text-zinc-500 truncate">{target.description}</div>
+              </div>
+              {target.id === selected && <CheckIcon className="w-3.5 h-3.5 text-blue-400 shrink-0" />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
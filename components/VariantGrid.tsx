@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ArrowLeftIcon, ArrowsPointingOutIcon, CheckIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { DeviceViewport } from './DeviceViewport';
+import { SandboxFrame } from './SandboxFrame';
+import { Variant } from '../services/variants';
+import { getSandboxCsp } from '../services/sandbox';
+
+interface VariantGridProps {
+  variants: Variant[];
+  onPromote: (ids: string[]) => void; // Variants to keep as creations; the other finished ones become alternates
+  onCancel: () => void;
+}
+
+// Thumbnails render at a desktop viewport, scaled down to the card
+const THUMBNAIL_SIZE = { width: 1280, height: 800 };
+
+/**
+ * Live previews of a variants run as they finish, for picking which ones to keep.
+ */
+export const VariantGrid: React.FC<VariantGridProps> = ({ variants, onPromote, onCancel }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [csp] = useState(getSandboxCsp);
+  const finished = variants.filter(v => v.status === 'done').length;
+  const pending = variants.filter(v => v.status === 'queued' || v.status === 'streaming').length;
+  const expanded = variants.find(v => v.id === expandedId && v.result);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const renderStatus = (variant: Variant) => {
+    if (variant.status === 'failed') {
+      return (
+        <div className="flex flex-col items-center gap-2 px-4 text-center">
+          <ExclamationTriangleIcon className="w-5 h-5 text-red-400" />
+          <span className="text-[11px] text-zinc-500 line-clamp-3">{variant.error || 'Generation failed'}</span>
+        </div>
+      );
+    }
+    return (
+      <div className="flex flex-col items-center gap-2">
+        <div className="w-5 h-5 border-2 border-zinc-700 border-t-blue-400 rounded-full animate-spin" />
+        <span className="text-[10px] font-mono uppercase tracking-wider text-zinc-500">
+          {variant.status === 'queued' ? 'Queued' : variant.receivedChars > 0 ? `${(variant.receivedChars / 1024).toFixed(1)} KB` : 'Thinking'}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-300">
+      <div className="w-full max-w-6xl h-[85vh] flex flex-col bg-[#0E0E10] border border-zinc-800 rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <div className="flex items-center gap-3">
+            {expanded && (
+              <button onClick={() => setExpandedId(null)} title="Back to all variants" className="text-zinc-500 hover:text-zinc-300 p-1 rounded-md hover:bg-zinc-800"><ArrowLeftIcon className="w-4 h-4" /></button>
+            )}
+            <div>
+              <h2 className="text-sm font-bold text-zinc-100">{expanded ? `Variant ${expanded.index}` : 'Pick Variants'}</h2>
+              <p className="text-[11px] font-mono text-zinc-500 mt-0.5">
+                {finished} of {variants.length} ready{pending > 0 ? ` · ${pending} still generating` : ''}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="text-zinc-500 hover:text-zinc-300 p-1 rounded-md hover:bg-zinc-800"><XMarkIcon className="w-4 h-4" /></button>
+        </div>
+
+        {expanded ? (
+          <div className="flex-1 min-h-0 bg-white">
+            <SandboxFrame title={`Variant ${expanded.index} Preview`} html={expanded.result!.html} csp={csp} />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-5 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 content-start">
+            {variants.map(variant => {
+              const isSelected = selected.has(variant.id);
+              return (
+                <div key={variant.id} className={`flex flex-col rounded-xl border overflow-hidden transition-colors ${isSelected ? 'border-blue-500' : 'border-zinc-800'}`}>
+                  <div className="flex items-center justify-between gap-2 px-3 py-2 bg-zinc-900/60 border-b border-zinc-800">
+                    <span className="text-[11px] font-bold text-zinc-300">Variant {variant.index}</span>
+                    <div className="flex items-center gap-2 min-w-0">
+                      {variant.result && (
+                        <span className="text-[10px] font-mono text-zinc-500 truncate">seed {variant.result.params.seed}</span>
+                      )}
+                      {variant.result && variant.result.warnings.length > 0 && (
+                        <span title={variant.result.warnings.map(w => w.message).join('\n')} className="text-amber-400"><ExclamationTriangleIcon className="w-3.5 h-3.5" /></span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="relative aspect-[16/10] bg-[#09090b] flex items-center justify-center">
+                    {variant.result ? (
+                      <>
+                        <div className="absolute inset-0 pointer-events-none">
+                          <DeviceViewport size={THUMBNAIL_SIZE} zoom="fit">
+                            <SandboxFrame title={`Variant ${variant.index} Thumbnail`} html={variant.result.html} csp={csp} />
+                          </DeviceViewport>
+                        </div>
+                        <button onClick={() => toggle(variant.id)} className="absolute inset-0" aria-label={`Select variant ${variant.index}`} />
+                      </>
+                    ) : renderStatus(variant)}
+                  </div>
+                  <div className="flex items-center justify-between px-3 py-2 border-t border-zinc-800">
+                    <button
+                      onClick={() => toggle(variant.id)}
+                      disabled={!variant.result}
+                      className={`flex items-center gap-1.5 text-[11px] font-medium px-2 py-1 rounded-md transition-colors disabled:opacity-30 ${isSelected ? 'bg-blue-500/15 text-blue-300' : 'text-zinc-400 hover:text-zinc-200'}`}
+                    >
+                      <CheckIcon className="w-3.5 h-3.5" />{isSelected ? 'Selected' : 'Select'}
+                    </button>
+                    <button
+                      onClick={() => setExpandedId(variant.id)}
+                      disabled={!variant.result}
+                      title="Open full size"
+                      className="p-1 rounded-md text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800 disabled:opacity-30"
+                    >
+                      <ArrowsPointingOutIcon className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-2 px-5 py-4 border-t border-zinc-800">
+          <p className="text-[11px] text-zinc-500">
+            {pending > 0 && selected.size > 0 ? 'Promoting now stops the variants still generating. ' : ''}
+            Every kept variant can switch to the other finished ones as alternates.
+          </p>
+          <div className="flex items-center gap-2">
+            {expanded && (
+              <button onClick={() => toggle(expanded.id)} className="text-xs font-medium text-zinc-400 hover:text-zinc-200 px-4 py-2 rounded-lg">
+                {selected.has(expanded.id) ? 'Deselect' : 'Select'}
+              </button>
+            )}
+            <button onClick={onCancel} className="text-xs font-medium text-zinc-400 hover:text-zinc-200 px-4 py-2 rounded-lg">Cancel</button>
+            <button
+              onClick={() => onPromote(variants.filter(v => selected.has(v.id)).map(v => v.id))}
+              disabled={selected.size === 0}
+              className="text-xs font-bold bg-white text-black hover:bg-zinc-200 px-4 py-2 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-white"
+            >
+              {selected.size > 0 ? `Keep ${selected.size} ${selected.size === 1 ? 'Variant' : 'Variants'}` : 'Keep Variants'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * True when the error comes from an AbortSignal firing rather than a real failure.
+ */
+export function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError';
+}
+
+export function createAbortError(): DOMException {
+  return new DOMException("Generation cancelled", "AbortError");
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw createAbortError();
+}
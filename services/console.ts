@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ConsoleLevel = 'log' | 'info' | 'debug' | 'warn' | 'error';
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  message: string;
+  timestamp: number; // Epoch ms
+  origin: 'console' | 'exception' | 'rejection';
+}
+
+export const CONSOLE_LEVELS: ConsoleLevel[] = ['log', 'info', 'debug', 'warn', 'error'];
+export const CONSOLE_ORIGINS: ConsoleEntry['origin'][] = ['console', 'exception', 'rejection'];
+
+/** Oldest entries are dropped past this, so chatty artifacts don't bloat storage. */
+export const MAX_CONSOLE_ENTRIES = 200;
+export const MAX_CONSOLE_MESSAGE_LENGTH = 4000;
+
+/**
+ * Accepts a console entry posted by a preview frame, or null if it's malformed.
+ */
+export function toConsoleEntry(value: unknown): ConsoleEntry | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { level, message, timestamp, origin } = value as Record<string, unknown>;
+  if (!CONSOLE_LEVELS.includes(level as ConsoleLevel) || !CONSOLE_ORIGINS.includes(origin as ConsoleEntry['origin'])) return null;
+  if (typeof message !== 'string' || typeof timestamp !== 'number' || !Number.isFinite(timestamp)) return null;
+  return { level: level as ConsoleLevel, message: message.slice(0, MAX_CONSOLE_MESSAGE_LENGTH), timestamp, origin: origin as ConsoleEntry['origin'] };
+}
+
+export function appendConsoleEntry(log: ConsoleEntry[], entry: ConsoleEntry): ConsoleEntry[] {
+  const next = [...log, entry];
+  return next.length > MAX_CONSOLE_ENTRIES ? next.slice(next.length - MAX_CONSOLE_ENTRIES) : next;
+}
+
+export function countConsoleIssues(log: ConsoleEntry[] = []): { errors: number; warnings: number } {
+  let errors = 0, warnings = 0;
+  for (const entry of log) {
+    if (entry.level === 'error') errors++;
+    else if (entry.level === 'warn') warnings++;
+  }
+  return { errors, warnings };
+}
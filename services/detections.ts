@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BoundingBox } from './providers/types';
+
+/** Element categories the vision prompt asks for. */
+export const DETECTION_TYPES = ['ui_component', 'interactive_element', 'layout_structure', 'aesthetic_detail'];
+
+/** Boxes narrower or shorter than this fraction are treated as accidental clicks. */
+export const MIN_BOX_SIZE = 0.01;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Keeps a box inside the image, or returns null when it is degenerate or not numeric.
+ */
+export function clampBox(box: BoundingBox): BoundingBox | null {
+  const values = [box.x, box.y, box.width, box.height];
+  if (!values.every(v => typeof v === 'number' && Number.isFinite(v))) return null;
+  const x = clamp01(box.x);
+  const y = clamp01(box.y);
+  const width = clamp01(box.x + box.width) - x;
+  const height = clamp01(box.y + box.height) - y;
+  return width >= MIN_BOX_SIZE && height >= MIN_BOX_SIZE ? { x, y, width, height } : null;
+}
+
+/**
+ * Box spanning two corner points, in either drag direction.
+ */
+export function boxFromPoints(a: { x: number; y: number }, b: { x: number; y: number }): BoundingBox | null {
+  return clampBox({ x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(a.x - b.x), height: Math.abs(a.y - b.y) });
+}
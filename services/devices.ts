@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type DeviceId = 'fill' | 'phone' | 'tablet' | 'desktop' | 'custom';
+
+export interface DevicePreset {
+  id: Exclude<DeviceId, 'fill' | 'custom'>;
+  label: string;
+  width: number;
+  height: number;
+}
+
+/** CSS-pixel viewports of common hardware, in portrait for handhelds. */
+export const DEVICE_PRESETS: DevicePreset[] = [
+  { id: 'phone', label: 'Phone', width: 390, height: 844 },
+  { id: 'tablet', label: 'Tablet', width: 820, height: 1180 },
+  { id: 'desktop', label: 'Desktop', width: 1440, height: 900 },
+];
+
+export type ZoomLevel = 'fit' | number;
+
+export const ZOOM_LEVELS: ZoomLevel[] = ['fit', 0.5, 0.75, 1];
+
+export const MIN_VIEWPORT = 200;
+export const MAX_VIEWPORT = 3840;
+
+export interface ViewportSettings {
+  device: DeviceId;
+  customWidth: number;
+  customHeight: number;
+  rotated: boolean;
+  zoom: ZoomLevel;
+}
+
+export const DEFAULT_VIEWPORT: ViewportSettings = { device: 'fill', customWidth: 1024, customHeight: 768, rotated: false, zoom: 'fit' };
+
+export function clampViewport(value: number): number {
+  return Number.isFinite(value) ? Math.min(MAX_VIEWPORT, Math.max(MIN_VIEWPORT, Math.round(value))) : MIN_VIEWPORT;
+}
+
+/**
+ * Emulated viewport in CSS pixels, or null when the preview should fill its pane.
+ */
+export function getViewportSize(settings: ViewportSettings): { width: number; height: number } | null {
+  if (settings.device === 'fill') return null;
+  const preset = DEVICE_PRESETS.find(p => p.id === settings.device);
+  const width = preset ? preset.width : clampViewport(settings.customWidth);
+  const height = preset ? preset.height : clampViewport(settings.customHeight);
+  return settings.rotated ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Scale at which a viewport is drawn inside the available area. 'fit' never enlarges.
+ */
+export function getViewportScale(size: { width: number; height: number }, available: { width: number; height: number }, zoom: ZoomLevel): number {
+  if (zoom !== 'fit') return zoom;
+  if (available.width <= 0 || available.height <= 0) return 1;
+  return Math.min(1, available.width / size.width, available.height / size.height);
+}
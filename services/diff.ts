@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type DiffKind = 'same' | 'added' | 'removed' | 'changed';
+
+export interface DiffLine {
+  number: number; // 1-based line number in its source document
+  text: string;
+}
+
+export interface DiffRow {
+  kind: DiffKind;
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Above this many LCS table cells (~16 MB) the changed block is shown as replaced whole
+const MAX_TABLE_CELLS = 4_000_000;
+
+type Op = { type: 'same' | 'added' | 'removed'; leftIdx?: number; rightIdx?: number };
+
+/**
+ * Longest-common-subsequence edit script over two line arrays.
+ * Shared prefix/suffix lines are trimmed first so typical revisions stay cheap;
+ * a middle too large to compare line by line is reported as removed then added.
+ */
+function computeOps(a: string[], b: string[]): Op[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const n = endA - start;
+  const m = endB - start;
+  const ops: Op[] = [];
+  for (let k = 0; k < start; k++) ops.push({ type: 'same', leftIdx: k, rightIdx: k });
+  const suffix = () => {
+    for (let k = 0; k < a.length - endA; k++) ops.push({ type: 'same', leftIdx: endA + k, rightIdx: endB + k });
+    return ops;
+  };
+
+  if (n * m > MAX_TABLE_CELLS) {
+    for (let k = start; k < endA; k++) ops.push({ type: 'removed', leftIdx: k });
+    for (let k = start; k < endB; k++) ops.push({ type: 'added', rightIdx: k });
+    return suffix();
+  }
+
+  const width = m + 1;
+  const table = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * width + j] = a[start + i] === b[start + j]
+        ? table[(i + 1) * width + j + 1] + 1
+        : Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      ops.push({ type: 'same', leftIdx: start + i, rightIdx: start + j });
+      i++; j++;
+    } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+      ops.push({ type: 'removed', leftIdx: start + i });
+      i++;
+    } else {
+      ops.push({ type: 'added', rightIdx: start + j });
+      j++;
+    }
+  }
+  while (i < n) { ops.push({ type: 'removed', leftIdx: start + i }); i++; }
+  while (j < m) { ops.push({ type: 'added', rightIdx: start + j }); j++; }
+  return suffix();
+}
+
+/**
+ * Builds side-by-side rows for two documents. Adjacent removed/added runs are
+ * paired up as 'changed' rows so edits line up across the two columns.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const ops = computeOps(a, b);
+  const rows: DiffRow[] = [];
+
+  let idx = 0;
+  while (idx < ops.length) {
+    const op = ops[idx];
+    if (op.type === 'same') {
+      rows.push({
+        kind: 'same',
+        left: { number: op.leftIdx! + 1, text: a[op.leftIdx!] },
+        right: { number: op.rightIdx! + 1, text: b[op.rightIdx!] }
+      });
+      idx++;
+      continue;
+    }
+
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (idx < ops.length && ops[idx].type !== 'same') {
+      if (ops[idx].type === 'removed') removed.push(ops[idx].leftIdx!);
+      else added.push(ops[idx].rightIdx!);
+      idx++;
+    }
+    const pairs = Math.max(removed.length, added.length);
+    for (let k = 0; k < pairs; k++) {
+      const l = removed[k];
+      const r = added[k];
+      rows.push({
+        kind: l !== undefined && r !== undefined ? 'changed' : l !== undefined ? 'removed' : 'added',
+        left: l !== undefined ? { number: l + 1, text: a[l] } : undefined,
+        right: r !== undefined ? { number: r + 1, text: b[r] } : undefined
+      });
+    }
+  }
+  return rows;
+}
+
+export function getDiffStats(rows: DiffRow[]): DiffStats {
+  return rows.reduce((stats, row) => {
+    if (row.kind === 'added' || row.kind === 'changed') stats.added++;
+    if (row.kind === 'removed' || row.kind === 'changed') stats.removed++;
+    return stats;
+  }, { added: 0, removed: 0 });
+}
@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { zipSync, strToU8 } from 'fflate';
+import { Creation } from '../components/CreationHistory';
+import { loadInputs, loadOriginalImage } from './storage';
+import { getInputs } from './inputs';
+import { getSourceKind } from './library';
+import { getRevisions } from './revisions';
+import { serializeCreation } from './schema';
+import { buildProjectScaffold, getArtifactTarget, getTargetInfo } from './project';
+import { dataUrlToBytes, isBinaryContent } from './vfs';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg',
+  'application/pdf': 'pdf',
+};
+
+/** Format tag of the library.json index inside a backup archive. */
+export const LIBRARY_BACKUP_FORMAT = 'eburon-library-backup';
+export const LIBRARY_BACKUP_VERSION = 1;
+
+export function toFileSlug(name: string): string {
+  return name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+interface AssetBytes {
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+interface BundleInput {
+  path: string | null; // Set when the file is inside the bundle
+  url: string | null; // Remote inputs that couldn't be copied in
+  name: string;
+  caption: string | null;
+  mimeType: string;
+  pages: number[] | null;
+}
+
+/**
+ * Reads a data URL or remote input as bytes. Remote URLs (e.g. FLUX temp files)
+ * may refuse cross-origin reads, in which case the manifest just links them.
+ */
+async function fetchAsset(source: string | undefined): Promise<AssetBytes | null> {
+  if (!source) return null;
+  try {
+    const res = await fetch(source);
+    if (!res.ok) return null;
+    const blob = await res.blob();
+    return { bytes: new Uint8Array(await blob.arrayBuffer()), mimeType: blob.type };
+  } catch (e) {
+    console.warn("Could not read input asset for export", e);
+    return null;
+  }
+}
+
+/**
+ * Every input with its data loaded; legacy creations yield their single original.
+ */
+async function loadAllInputs(creation: Creation) {
+  const originalImage = await loadOriginalImage(creation);
+  return getInputs({ ...creation, originalImage, inputs: creation.inputs && await loadInputs(creation) });
+}
+
+function buildManifest(creation: Creation, inputPath: string | null, inputs: BundleInput[]) {
+  const target = getArtifactTarget(creation);
+  return {
+    format: 'eburon-artifact-bundle',
+    version: 1,
+    id: creation.id,
+    name: creation.name,
+    prompt: creation.prompt ?? null,
+    source: getSourceKind(creation),
+    createdAt: new Date(creation.timestamp).toISOString(),
+    exportedAt: new Date().toISOString(),
+    entry: creation.files ? 'preview.html' : 'index.html',
+    target,
+    files: creation.files?.map(f => f.path) ?? null,
+    input: inputPath ?? (creation.originalImage && !creation.originalImage.startsWith('data:') ? creation.originalImage : null),
+    inputs,
+    detections: creation.identifications ?? [],
+    tags: creation.tags ?? [],
+    generation: creation.generation ?? null,
+    revisionCount: getRevisions(creation).length,
+  };
+}
+
+function buildReadme(creation: Creation, inputs: BundleInput[]): string {
+  const target = getArtifactTarget(creation);
+  const inputLines = inputs
+    .filter(input => input.path)
+    .map(input => `- \`${input.path}\` — ${input.caption ? `${input.caption} (${input.name})` : input.name}.\n`)
+    .join('');
+  const appLines = !creation.files
+    ? '- `index.html` — the complete, self-contained app. Open it in a browser or upload this folder to any static host.\n'
+    : target === 'html'
+      ? '- `preview.html` — the complete app in a single file.\n- `index.html` with its stylesheets, scripts and assets — the source files. Upload this folder to any static host.\n'
+      : `- \`preview.html\` — the app bundled in the browser from CDNs. Open it directly to try it.\n- \`index.html\`, \`src/\` and \`package.json\` — the ${getTargetInfo(target).label} project. Run \`npm install\` and \`npm run dev\` to work on it, or \`npm run build\` for static hosting.\n`;
+  return `# ${creation.name}
+
+Interactive artifact generated with Eburon AI on ${new Date(creation.timestamp).toLocaleString()}.
+
+## Contents
+
+${appLines}${inputLines}- \`manifest.json\` — prompt, detected components and other generation metadata.
+${creation.prompt ? `\n## Prompt\n\n> ${creation.prompt.replace(/\n/g, '\n> ')}\n` : ''}`;
+}
+
+/**
+ * The artifact as a single HTML file, with a provenance comment after the doctype.
+ */
+export function buildStandaloneHtml(creation: Creation): string {
+  const banner = `<!-- ${creation.name.replace(/--/g, '- -')} · Exported from Eburon AI on ${new Date().toISOString()} -->`;
+  const doctype = creation.html.match(/^\s*<!DOCTYPE html>/i);
+  return doctype
+    ? `${doctype[0]}\n${banner}${creation.html.slice(doctype[0].length)}`
+    : `${banner}\n${creation.html}`;
+}
+
+/**
+ * ZIP with index.html, the input files in order, manifest.json and a README, ready for static hosting.
+ * Creations stored as files add their source tree (with a package.json for projects),
+ * and the bundled app moves to preview.html.
+ */
+export async function buildBundleZip(creation: Creation): Promise<Blob> {
+  const files: Record<string, Uint8Array> = {};
+  const inputs: BundleInput[] = [];
+  for (const [index, input] of (await loadAllInputs(creation)).entries()) {
+    const asset = await fetchAsset(input.data);
+    const path = asset ? `input/${String(index + 1).padStart(2, '0')}-${toFileSlug(input.name.replace(/\.[^.]+$/, ''))}.${EXTENSIONS[asset.mimeType] || 'bin'}` : null;
+    if (asset && path) files[path] = asset.bytes;
+    inputs.push({
+      path,
+      url: !path && input.data?.startsWith('https://') ? input.data : null,
+      name: input.name,
+      caption: input.caption ?? null,
+      mimeType: input.mimeType,
+      pages: input.pages ?? null,
+    });
+  }
+
+  if (!creation.files) {
+    files['index.html'] = strToU8(buildStandaloneHtml(creation));
+  } else {
+    const project = creation.files;
+    for (const file of [...project, ...buildProjectScaffold(getArtifactTarget(creation), creation.name, project)]) {
+      files[file.path] = isBinaryContent(file.content) ? dataUrlToBytes(file.content) : strToU8(file.content);
+    }
+    files['preview.html'] = strToU8(buildStandaloneHtml(creation));
+  }
+  files['manifest.json'] = strToU8(JSON.stringify(buildManifest(creation, inputs[0]?.path ?? null, inputs), null, 2));
+  files['README.md'] = strToU8(buildReadme(creation, inputs));
+
+  return new Blob([zipSync(files, { level: 6 })], { type: 'application/zip' });
+}
+
+/**
+ * Versioned JSON for re-import, with the input assets inlined.
+ */
+export async function buildCreationJson(creation: Creation): Promise<string> {
+  const originalImage = await loadOriginalImage(creation);
+  const inputs = creation.inputs && await loadInputs(creation);
+  return JSON.stringify(serializeCreation({ ...creation, originalImage, inputs }), null, 2);
+}
+
+/**
+ * Every creation plus its input assets in one ZIP: library.json holds the
+ * serialized creations and each inline input is stored under assets/.
+ */
+export async function buildLibraryBackup(history: Creation[]): Promise<Blob> {
+  const files: Record<string, Uint8Array> = {};
+  const creations: Record<string, unknown>[] = [];
+
+  for (const creation of history) {
+    const { originalImage, inputs, ...record } = serializeCreation(creation);
+    const entry: Record<string, unknown> = record;
+    const original = await loadOriginalImage(creation);
+    const asset = original?.startsWith('data:') ? await fetchAsset(original) : null;
+    let originalPath: string | null = null;
+    if (asset) {
+      originalPath = `assets/${toFileSlug(creation.id)}.${EXTENSIONS[asset.mimeType] || 'bin'}`;
+      files[originalPath] = asset.bytes;
+      entry.asset = originalPath;
+    } else if (originalImage) {
+      // Remote inputs (or ones that failed to load) are kept as-is
+      entry.originalImage = originalImage;
+    }
+
+    if (inputs) {
+      entry.inputs = await Promise.all((await loadInputs(creation)).map(async ({ asset: stored, data, ...input }, index) => {
+        if (originalPath && data === original) return { ...input, asset: originalPath };
+        const bytes = data?.startsWith('data:') ? await fetchAsset(data) : null;
+        if (!bytes) return data ? { ...input, data } : input;
+        const path = `assets/${toFileSlug(creation.id)}-${index + 1}.${EXTENSIONS[bytes.mimeType] || 'bin'}`;
+        files[path] = bytes.bytes;
+        return { ...input, asset: path };
+      }));
+    }
+    creations.push(entry);
+  }
+
+  files['library.json'] = strToU8(JSON.stringify({
+    format: LIBRARY_BACKUP_FORMAT,
+    version: LIBRARY_BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    creations,
+  }, null, 2));
+
+  // Inputs are mostly already-compressed images, so store rather than deflate
+  return new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' });
+}
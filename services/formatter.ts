@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ProjectFile, isBinaryContent } from './vfs';
+
+const INDENT = '  ';
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+// Contents of these are whitespace-sensitive and left exactly as written
+const PRESERVED_TAGS = ['pre', 'textarea'];
+
+/**
+ * Net change in element depth caused by one line of markup.
+ */
+function tagBalance(line: string): number {
+  let balance = 0;
+  for (const match of line.matchAll(/<(\/?)([a-zA-Z][\w:-]*)[^>]*?(\/?)>|<([a-zA-Z][\w:-]*)\b[^>]*$/g)) {
+    const name = (match[2] || match[4]).toLowerCase();
+    if (VOID_TAGS.has(name)) continue;
+    if (match[1]) balance--;
+    else if (!match[3]) balance++;
+  }
+  // An opening tag whose attributes continued over several lines closes itself here
+  if (/^[^<]*\/>\s*$/.test(line)) balance--;
+  return balance;
+}
+
+function bracketBalance(line: string): number {
+  const code = line.replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '').replace(/\/\/.*$/, '');
+  return (code.match(/[{[(]/g) || []).length - (code.match(/[}\])]/g) || []).length;
+}
+
+/**
+ * Re-indents a document by element nesting, and inline scripts and styles by
+ * bracket nesting. Only leading whitespace and runs of blank lines change;
+ * <pre> and <textarea> contents are kept verbatim.
+ */
+export function formatHtml(html: string): string {
+  const out: string[] = [];
+  let depth = 0;
+  let codeDepth = 0;
+  let block: 'script' | 'style' | 'preserved' | null = null;
+  let blankRun = 0;
+
+  for (const rawLine of html.split('\n')) {
+    if (block === 'preserved') {
+      out.push(rawLine);
+      if (new RegExp(`</(${PRESERVED_TAGS.join('|')})>`, 'i').test(rawLine)) {
+        block = null;
+        depth = Math.max(0, depth + tagBalance(rawLine));
+      }
+      continue;
+    }
+
+    const line = rawLine.trim();
+    if (!line) {
+      if (++blankRun <= 1 && out.length > 0) out.push('');
+      continue;
+    }
+    blankRun = 0;
+
+    if (block) {
+      if (new RegExp(`^</${block}`, 'i').test(line)) {
+        block = null;
+      } else {
+        const lead = /^[}\])]/.test(line) ? -1 : 0;
+        out.push(INDENT.repeat(Math.max(0, depth + codeDepth + lead)) + line);
+        codeDepth = Math.max(0, codeDepth + bracketBalance(line));
+        continue;
+      }
+    }
+
+    const leadingClose = /^<\//.test(line) ? 1 : 0;
+    out.push(INDENT.repeat(Math.max(0, depth - leadingClose)) + line);
+    depth = Math.max(0, depth + tagBalance(line));
+
+    const opened = /<(script|style)\b[^>]*>(?![\s\S]*<\/\1>)/i.exec(line);
+    if (opened && !/\/>\s*$/.test(opened[0])) {
+      block = opened[1].toLowerCase() as 'script' | 'style';
+      codeDepth = 0;
+    } else if (new RegExp(`<(${PRESERVED_TAGS.join('|')})\\b`, 'i').test(line) && !new RegExp(`</(${PRESERVED_TAGS.join('|')})>`, 'i').test(line)) {
+      block = 'preserved';
+    }
+  }
+
+  return out.join('\n').trim() + '\n';
+}
+
+/**
+ * Re-indents a stylesheet or script by bracket nesting. Lines inside
+ * multi-line template literals are kept verbatim.
+ */
+export function formatCode(code: string): string {
+  const out: string[] = [];
+  let depth = 0;
+  let inTemplate = false;
+  let blankRun = 0;
+
+  for (const rawLine of code.split('\n')) {
+    const backticks = (rawLine.match(/(?<!\\)`/g) || []).length;
+    if (inTemplate) {
+      out.push(rawLine);
+      if (backticks % 2 === 1) inTemplate = false;
+      continue;
+    }
+
+    const line = rawLine.trim();
+    if (!line) {
+      if (++blankRun <= 1 && out.length > 0) out.push('');
+      continue;
+    }
+    blankRun = 0;
+
+    const lead = /^[}\])]/.test(line) ? -1 : 0;
+    out.push(INDENT.repeat(Math.max(0, depth + lead)) + line);
+    depth = Math.max(0, depth + bracketBalance(line));
+    if (backticks % 2 === 1) inTemplate = true;
+  }
+
+  return out.join('\n').trim() + '\n';
+}
+
+/**
+ * Formats a project file by type; files the formatters don't understand, such
+ * as JSX or binary assets, are returned unchanged.
+ */
+export function formatProjectFile(file: ProjectFile): ProjectFile {
+  if (isBinaryContent(file.content)) return file;
+  if (/\.html?$/i.test(file.path)) return { ...file, content: formatHtml(file.content) };
+  if (/\.(css|m?js)$/i.test(file.path)) return { ...file, content: formatCode(file.content) };
+  return file;
+}
@@ -1,22 +1,20 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
-
-// gemini-3-pro-preview is the most advanced model for complex coding and reasoning.
-const GEMINI_CODE_MODEL = 'gemini-3-pro-preview';
-// Fallback model if external generation fails
-const GEMINI_IMAGE_MODEL = 'gemini-3-pro-image-preview';
-
-// Hugging Face FLUX.2 Klein 9B Endpoint
-const FLUX_API_BASE = 'https://black-forest-labs-flux-2-klein-9b.hf.space/gradio_api/call/generate';
+import { createAbortError, throwIfAborted } from './abort';
+import { getActiveProvider } from './providers';
+import { ContentPart, IdentificationResult } from './providers/types';
+import { ArtifactWarning, extractHtml, processGeneratedHtml } from './htmlAudit';
+import { BUILT_IN_PRESETS, StylePreset, buildStyleInstruction } from './styles';
+import { ArtifactSource, ArtifactTarget, buildProjectInstruction, getArtifactTarget, parseProjectSummary, processGeneratedProject, serializeProjectFiles } from './project';
+import { ProjectFile, splitHtmlDocument } from './vfs';
+import { CodeParams, CodeSettings, DEFAULT_GENERATION_SETTINGS, ImageParams, ImageSettings, resolveCodeParams, resolveImageParams } from './generationSettings';
 
-// Initialize the API client inside functions to ensure the most up-to-date API key is used.
-const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+export type { BoundingBox, IdentificationResult } from './providers/types';
 
-const SYSTEM_INSTRUCTION = `You are Eburon AI, a world-class Full-Stack AI Engineer and Creative Technologist.
+// Prompts live here so every provider receives the same instructions.
+const BASE_INSTRUCTION = `You are Eburon AI, a world-class Full-Stack AI Engineer and Creative Technologist.
 Your specialty is "Artifact Animation"—taking static concepts and turning them into high-performance, interactive, production-grade web applications.
 
 PROMPT ANALYSIS:
@@ -26,9 +24,11 @@ PROMPT ANALYSIS:
 
 ENGINEERING PRINCIPLES:
 1. **Interactive First**: Use React-like patterns with vanilla JS if needed, or stick to robust HTML5/Tailwind.
-2. **Visual Fidelity**: Use SVG, CSS glassmorphism, advanced animations (Keyframes), and modern typography.
+2. **Visual Fidelity**: Use SVG and purposeful motion, following the VISUAL STYLE section when one is given and the artifact's existing look otherwise.
 3. **No External Assets**: Recreate all icons and graphics using pure CSS or SVGs.
-4. **Resiliency**: Ensure the app handles edge cases and empty states gracefully.
+4. **Resiliency**: Ensure the app handles edge cases and empty states gracefully.`;
+
+const SYSTEM_INSTRUCTION = `${BASE_INSTRUCTION}
 
 OUTPUT:
 Return ONLY the raw HTML code starting with <!DOCTYPE html>. No markdown formatting.`;
@@ -40,183 +40,121 @@ For each element, include:
 - confidence: A value between 0.95 and 0.99.
 - description: A brief technical summary of its role or appearance.
 - type: 'ui_component', 'interactive_element', 'layout_structure', or 'aesthetic_detail'.
+- box_2d: The element's bounding box as [ymin, xmin, ymax, xmax], normalized to 0-1000.
 
 Return ONLY valid JSON.`;
 
+// Edits stay close to the current artifact unless a temperature is set explicitly
+const REVISION_TEMPERATURE = 0.4;
+
+const REFINE_MODE = `REFINEMENT MODE:
+You are iterating on an artifact you already built. Apply the requested change to the provided source while preserving all existing functionality, styling and state handling that the user did not ask to change.`;
+
+const REPAIR_MODE = `REPAIR MODE:
+The artifact below throws errors when it runs. Find the root cause of each reported error (missing functions or variables, syntax errors, bad DOM lookups, failed promises) and fix it with the smallest change that works. Do not redesign the artifact or drop features.`;
+
 /**
- * Checks if the error is related to project billing/quota or entity not found.
+ * Base prompt plus the OUTPUT rules for the chosen target.
  */
-function isQuotaOrAuthError(error: any): boolean {
-  const message = error?.message || "";
-  const status = error?.status || "";
-  const code = error?.code || 0;
-  
-  return (
-    message.includes("Requested entity was not found") || 
-    message.includes("quota") ||
-    message.includes("RESOURCE_EXHAUSTED") ||
-    status === "RESOURCE_EXHAUSTED" ||
-    code === 429
-  );
-}
-
-export interface IdentificationResult {
-  label: string;
-  confidence: number;
-  description: string;
-  type: string;
+function buildSystemInstruction(target: ArtifactTarget): string {
+  return target === 'html' ? SYSTEM_INSTRUCTION : `${BASE_INSTRUCTION}\n\n${buildProjectInstruction(target)}`;
 }
 
 /**
- * Identifies components in the image using Gemini 3 Pro Vision, branded as Eburon-YOLO26.
+ * Prompt for an edit pass, including where the model leaves its one-sentence change summary.
+ * Artifacts stored as files are revised file by file, whatever their target.
  */
-export async function identifyImage(fileBase64: string, mimeType: string): Promise<IdentificationResult[]> {
-  const ai = getAI();
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_CODE_MODEL,
-      contents: {
-        parts: [
-          { text: "Perform a complete YOLO26 visual scan and identify all functional components." },
-          { inlineData: { data: fileBase64, mimeType: mimeType } }
-        ]
-      },
-      config: {
-        systemInstruction: IDENTIFICATION_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              label: { type: Type.STRING },
-              confidence: { type: Type.NUMBER },
-              description: { type: Type.STRING },
-              type: { type: Type.STRING }
-            },
-            required: ["label", "confidence", "description", "type"]
-          }
-        }
-      }
-    });
-
-    return JSON.parse(response.text || "[]");
-  } catch (error: any) {
-    console.error("Identification Error:", error);
-    if (isQuotaOrAuthError(error)) throw new Error("KEY_RESET_REQUIRED");
-    return [];
+function buildRevisionInstruction(mode: string, current: ArtifactSource, action: 'changed' | 'fixed'): string {
+  if (!current.files) {
+    return `${SYSTEM_INSTRUCTION}\n\n${mode}\nInside <head>, include <meta name="eburon-change-summary" content="..."> with a one-sentence summary of what you ${action}, replacing any previous one.`;
   }
+  return `${BASE_INSTRUCTION}\n\n${buildProjectInstruction(getArtifactTarget(current))}\n\n${mode}\nReturn only the files you create or change, each in full; files you leave out are kept as they are. Before the first file, write <eburon-summary>one sentence on what you ${action}</eburon-summary>.`;
+}
+
+export interface RefinementMessage {
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number; // Epoch ms, survives JSON round-trips
+}
+
+export interface RefinementResult {
+  html: string;
+  files?: ProjectFile[]; // The full updated file set, for artifacts stored as files
+  summary: string;
+  warnings: ArtifactWarning[];
 }
 
+export interface GenerationAttachment {
+  data: string; // Base64 without the data URL prefix
+  mimeType: string;
+  label?: string; // Sent as text right before the attachment, e.g. "Page 2 of 5"
+}
+
+export interface BringToLifeRequest {
+  prompt: string;
+  attachments?: GenerationAttachment[];
+  documentText?: string; // Text extracted from a document input
+  detectionContext?: string;
+  style?: StylePreset; // Defaults to the Eburon preset
+  target?: ArtifactTarget; // Defaults to a single HTML document
+  settings?: CodeSettings; // Model and sampling overrides
+}
+
+export type GenerationEvent =
+  | { type: 'thinking'; text: string }
+  | { type: 'chunk'; text: string; html: string } // `html` is the document so far; empty for projects, which only run once complete
+  | { type: 'done'; html: string; files?: ProjectFile[]; warnings: ArtifactWarning[]; params: CodeParams };
+
 /**
- * Generates an image using FLUX.2 Klein 9B on Hugging Face.
+ * Identifies components in the image using the active provider's vision model, branded as Eburon-YOLO26.
  */
-export async function generateFluxImage(prompt: string): Promise<string> {
+export async function identifyImage(fileBase64: string, mimeType: string, signal?: AbortSignal): Promise<IdentificationResult[]> {
   try {
-    // Step 1: POST to get Event ID
-    const postResponse = await fetch(FLUX_API_BASE, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        data: [
-          prompt,                 // [0] Prompt
-          null,                   // [1] Input Image(s)
-          "Distilled (4 steps)",   // [2] Mode
-          0,                      // [3] Seed
-          true,                   // [4] Randomize seed
-          1024,                   // [5] Width
-          1024,                   // [6] Height
-          4,                      // [7] Number of inference steps
-          1,                      // [8] Guidance scale
-          false                   // [9] Prompt Upsampling
-        ]
-      })
+    const detections = await getActiveProvider().identify({
+      systemInstruction: IDENTIFICATION_INSTRUCTION,
+      prompt: "Perform a complete YOLO26 visual scan and identify all functional components.",
+      fileBase64,
+      mimeType,
+      signal
     });
-
-    if (!postResponse.ok) throw new Error("Failed to initiate FLUX generation");
-    const { event_id } = await postResponse.json();
-
-    // Step 2: GET the result via SSE or simple fetch if possible
-    const resultUrl = `${FLUX_API_BASE}/${event_id}`;
-    
-    // Gradio SSE handling: We need to poll or read the stream for 'complete'
-    return new Promise((resolve, reject) => {
-      const eventSource = new EventSource(resultUrl);
-      
-      eventSource.onmessage = (event) => {
-        const data = JSON.parse(event.data);
-        if (data.msg === 'process_completed') {
-          eventSource.close();
-          if (data.success && data.output && data.output.data && data.output.data[0]) {
-            // Gradio returns a list of results, the first is the image object
-            const result = data.output.data[0];
-            // If it's a URL, use it directly (Hugging Face often returns temp URLs)
-            if (typeof result === 'string') resolve(result);
-            if (result.url) resolve(result.url);
-          }
-          reject(new Error("FLUX generation failed to return image data"));
-        }
-      };
-
-      eventSource.onerror = (err) => {
-        eventSource.close();
-        reject(err);
-      };
-
-      // Timeout after 60 seconds
-      setTimeout(() => {
-        eventSource.close();
-        reject(new Error("FLUX generation timed out"));
-      }, 60000);
-    });
-  } catch (error) {
-    console.error("FLUX Generation Error, falling back to Gemini:", error);
-    return generateAIImage(prompt); // Fallback
+    throwIfAborted(signal);
+    return detections;
+  } catch (error: any) {
+    if (signal?.aborted) throw createAbortError();
+    console.error("Identification Error:", error);
+    if (error?.message === "KEY_RESET_REQUIRED") throw error;
+    return [];
   }
 }
 
 /**
- * Fallback image generation using Gemini
+ * Generates an image with the active provider (FLUX.2 Klein with a Gemini fallback by default)
+ * and returns it with the exact parameters it ran with. A fallback that ignored
+ * them records no parameters, so no reproducible seed is claimed.
  */
-export async function generateAIImage(prompt: string): Promise<string> {
-  const ai = getAI();
+export async function generateImage(prompt: string, settings: ImageSettings = DEFAULT_GENERATION_SETTINGS.image, signal?: AbortSignal): Promise<{ image: string; params: ImageParams | null }> {
+  const requested = resolveImageParams(settings);
   try {
-    const response = await ai.models.generateContent({
-      model: GEMINI_IMAGE_MODEL,
-      contents: {
-        parts: [{ text: `Generate a photorealistic, cinematic, and highly detailed artistic concept of: ${prompt}. High resolution, 4k, digital art style.` }],
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: "1:1",
-          imageSize: "1K"
-        }
-      }
-    });
-
-    const candidate = response.candidates?.[0];
-    if (candidate?.content?.parts) {
-      for (const part of candidate.content.parts) {
-        if (part.inlineData) {
-          return `data:image/png;base64,${part.inlineData.data}`;
-        }
-      }
-    }
-    throw new Error("No image data returned from Gemini Pro Image");
+    const { image, model, exact } = await getActiveProvider().generateImage({ prompt, ...requested, signal });
+    throwIfAborted(signal);
+    return { image, params: exact ? { model, ...requested } : null };
   } catch (error: any) {
-    console.error("Gemini Image Generation Error:", error);
-    if (isQuotaOrAuthError(error)) {
-        throw new Error("KEY_RESET_REQUIRED");
-    }
+    if (signal?.aborted) throw createAbortError();
+    console.error("Image Generation Error:", error);
     throw error;
   }
 }
 
-export async function bringToLife(prompt: string, fileBase64?: string, mimeType?: string, detectionContext?: string): Promise<string> {
-  const ai = getAI();
-  const parts: any[] = [];
+/**
+ * Streams an artifact generation. Yields thought summaries while the model reasons,
+ * the accumulated HTML after every received chunk, and a final 'done' event that
+ * carries the files: the project for project targets, or the document split into
+ * its stylesheets, scripts and images, along with the parameters the run used.
+ */
+export async function* streamBringToLife({ prompt, attachments = [], documentText, detectionContext, style = BUILT_IN_PRESETS[0], target = 'html', settings = DEFAULT_GENERATION_SETTINGS.code }: BringToLifeRequest, signal?: AbortSignal): AsyncGenerator<GenerationEvent> {
+  const parts: ContentPart[] = [];
   
-  let finalPrompt = fileBase64 
+  let finalPrompt = attachments.length > 0 
     ? "Exhaustively analyze this visual input. Identify all interactive components, data states, and navigation patterns. Build a sophisticated, single-page application that brings this concept to life with high interactivity and polished aesthetics." 
     : prompt || "Create a state-of-the-art interactive experience.";
 
@@ -224,36 +162,143 @@ export async function bringToLife(prompt: string, fileBase64?: string, mimeType?
     finalPrompt += `\n\nSUPPLEMENTAL VISION DATA (Eburon-YOLO26 Engine Results):\n${detectionContext}`;
   }
 
+  if (attachments.length > 1) {
+    finalPrompt += "\n\nThe attachments follow in the order the user arranged them, each introduced by its label. Treat them together as one brief (for example several screens, brand assets and a specification for the same product).";
+  }
+
+  if (documentText) {
+    finalPrompt += `\n\nEXTRACTED DOCUMENT TEXT (the page images follow in the same order):\n${documentText}`;
+  }
+
   parts.push({ text: finalPrompt });
 
-  if (fileBase64 && mimeType) {
+  for (const attachment of attachments) {
+    if (attachment.label) parts.push({ text: attachment.label });
     parts.push({
       inlineData: {
-        data: fileBase64,
-        mimeType: mimeType,
+        data: attachment.data,
+        mimeType: attachment.mimeType,
       },
     });
   }
 
+  const provider = getActiveProvider();
+  const params = resolveCodeParams(settings, provider.codeModels[0], style.temperature);
+
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: GEMINI_CODE_MODEL,
-      contents: { parts: parts },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.8,
-        thinkingConfig: { thinkingBudget: 32768 },
-      },
+    const stream = provider.streamCode({
+      systemInstruction: `${buildSystemInstruction(target)}\n\n${buildStyleInstruction(style)}`,
+      parts,
+      ...params,
+      signal
     });
 
-    let text = response.text || "<!-- Failed to generate content -->";
-    text = text.replace(/^```html\s*/i, '').replace(/^```\s*/, '').replace(/```$/, '');
-    return text.trim();
-  } catch (error: any) {
-    console.error("Gemini Generation Error:", error);
-    if (isQuotaOrAuthError(error)) {
-        throw new Error("KEY_RESET_REQUIRED");
+    let raw = '';
+    for await (const event of stream) {
+      throwIfAborted(signal);
+      if (event.type === 'thinking') {
+        yield { type: 'thinking', text: event.text };
+      } else {
+        raw += event.text;
+        yield { type: 'chunk', text: event.text, html: target === 'html' ? extractHtml(raw).html : '' };
+      }
     }
+
+    throwIfAborted(signal);
+    if (target !== 'html') {
+      yield { type: 'done', ...processGeneratedProject(target, raw), params };
+      return;
+    }
+    const result = processGeneratedHtml(raw);
+    yield { type: 'done', ...result, files: splitHtmlDocument(result.html) ?? undefined, params };
+  } catch (error: any) {
+    if (signal?.aborted) throw createAbortError();
+    console.error("Generation Error:", error);
+    throw error;
+  }
+}
+
+/**
+ * Non-streaming convenience wrapper around streamBringToLife.
+ */
+export async function bringToLife(request: BringToLifeRequest, signal?: AbortSignal): Promise<string> {
+  let html = '';
+  for await (const event of streamBringToLife(request, signal)) {
+    if (event.type === 'done') html = event.html;
+  }
+  return html;
+}
+
+/**
+ * Runs one edit pass over an existing artifact with the user's model, thinking
+ * budget and seed, and reads the change summary the model leaves in the
+ * document head, or before the files of a project.
+ */
+async function reviseArtifact(current: ArtifactSource, systemInstruction: string, prompt: string, fallbackSummary: string, settings: CodeSettings, signal?: AbortSignal): Promise<RefinementResult> {
+  const provider = getActiveProvider();
+  let raw = '';
+  for await (const event of provider.streamCode({
+    systemInstruction,
+    parts: [{ text: prompt }],
+    ...resolveCodeParams(settings, provider.codeModels[0], REVISION_TEMPERATURE),
+    signal
+  })) {
+    if (event.type === 'text') raw += event.text;
+  }
+
+  throwIfAborted(signal);
+  if (current.files) {
+    return { ...processGeneratedProject(getArtifactTarget(current), raw, current.files), summary: parseProjectSummary(raw) || fallbackSummary };
+  }
+  const { html, warnings } = processGeneratedHtml(raw);
+  // The value runs to the quote that opened it, so apostrophes inside double quotes survive
+  const summaryMatch = html.match(/<meta\s+name=["']eburon-change-summary["']\s+content=(["'])(.*?)\1/i);
+  return { html, summary: (summaryMatch && decodeEntities(summaryMatch[2]).trim()) || fallbackSummary, warnings };
+}
+
+/** Decodes HTML entities in an attribute value, e.g. `&quot;Save&quot;`, in an inert document. */
+function decodeEntities(value: string): string {
+  return new DOMParser().parseFromString(value, 'text/html').documentElement.textContent || '';
+}
+
+/** The artifact as the model reads it: the document, or every project file. */
+function formatSource(source: ArtifactSource): string {
+  return source.files ? serializeProjectFiles(source.files) : source.html;
+}
+
+/**
+ * Applies a follow-up instruction to an existing artifact and returns the revised document.
+ */
+export async function refineCreation(current: ArtifactSource, instruction: string, thread: RefinementMessage[] = [], settings: CodeSettings = DEFAULT_GENERATION_SETTINGS.code, signal?: AbortSignal): Promise<RefinementResult> {
+  const previousInstructions = thread.filter(m => m.role === 'user').map((m, i) => `${i + 1}. ${m.text}`);
+
+  let prompt = `CURRENT ARTIFACT:\n${formatSource(current)}\n\n`;
+  if (previousInstructions.length > 0) {
+    prompt += `EARLIER REFINEMENTS (already applied):\n${previousInstructions.join('\n')}\n\n`;
+  }
+  prompt += `REQUESTED CHANGE:\n${instruction}\n\n${current.files ? 'Return the files you changed.' : 'Return the complete updated HTML document.'}`;
+
+  try {
+    return await reviseArtifact(current, buildRevisionInstruction(REFINE_MODE, current, 'changed'), prompt, "Applied the requested changes.", settings, signal);
+  } catch (error: any) {
+    if (signal?.aborted) throw createAbortError();
+    console.error("Refinement Error:", error);
+    throw error;
+  }
+}
+
+/**
+ * Sends a failing artifact back with the runtime errors its preview reported and
+ * returns the patched document.
+ */
+export async function repairCreation(current: ArtifactSource, errors: string[], settings: CodeSettings = DEFAULT_GENERATION_SETTINGS.code, signal?: AbortSignal): Promise<RefinementResult> {
+  const prompt = `FAILING ARTIFACT:\n${formatSource(current)}\n\nRUNTIME ERRORS REPORTED BY THE PREVIEW:\n${errors.map((e, i) => `${i + 1}. ${e}`).join('\n')}\n\n${current.files ? 'Return the files you fixed.' : 'Return the complete fixed HTML document.'}`;
+
+  try {
+    return await reviseArtifact(current, buildRevisionInstruction(REPAIR_MODE, current, 'fixed'), prompt, "Fixed the reported runtime errors.", settings, signal);
+  } catch (error: any) {
+    if (signal?.aborted) throw createAbortError();
+    console.error("Repair Error:", error);
     throw error;
   }
 }
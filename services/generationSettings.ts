@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Overrides for artifact generation. Unset fields use the provider's model and the style's temperature. */
+export interface CodeSettings {
+  model?: string;
+  temperature?: number;
+  thinkingBudget: number;
+  seed?: number; // Unset draws a new seed for every run
+}
+
+/** FLUX image generation settings. */
+export interface ImageSettings {
+  width: number;
+  height: number;
+  steps: number;
+  guidance: number;
+  seed?: number; // Unset draws a new seed for every run
+}
+
+/** How many artifacts one request generates to pick from. */
+export interface VariantSettings {
+  count: number; // 1 generates a single artifact as usual
+  concurrency: number; // Generations in flight at once
+}
+
+export interface GenerationSettings {
+  code: CodeSettings;
+  image: ImageSettings;
+  variants: VariantSettings;
+}
+
+/** The exact values a generation ran with, stored on the creation. */
+export interface CodeParams {
+  model: string;
+  temperature: number;
+  thinkingBudget: number;
+  seed: number;
+}
+
+export interface ImageParams {
+  model?: string; // Unset on creations recorded before the model was tracked
+  width: number;
+  height: number;
+  steps: number;
+  guidance: number;
+  seed: number;
+}
+
+export interface GenerationParams {
+  code?: CodeParams;
+  image?: ImageParams;
+}
+
+interface Range { min: number; max: number; step: number }
+
+export const LIMITS = {
+  temperature: { min: 0, max: 2, step: 0.05 },
+  thinkingBudget: { min: 0, max: 32768, step: 1024 },
+  size: { min: 256, max: 2048, step: 64 },
+  steps: { min: 1, max: 50, step: 1 },
+  guidance: { min: 0, max: 20, step: 0.5 },
+  seed: { min: 0, max: 2147483647, step: 1 },
+  variants: { min: 1, max: 6, step: 1 },
+  concurrency: { min: 1, max: 4, step: 1 },
+} satisfies Record<string, Range>;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  code: { thinkingBudget: 32768 },
+  image: { width: 1024, height: 1024, steps: 4, guidance: 1 },
+  variants: { count: 1, concurrency: 2 },
+};
+
+const SETTINGS_STORAGE_KEY = 'eburon_generation_settings';
+const MAX_MODEL_LENGTH = 100;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/** Clamps a value into a range, rounding whole-number settings; anything that isn't a number gets the fallback. */
+export function clampSetting(value: unknown, range: Range, fallback: number): number {
+  if (!isNumber(value)) return fallback;
+  const stepped = range.step >= 1 ? Math.round(value) : value;
+  return Math.min(range.max, Math.max(range.min, stepped));
+}
+
+const optional = (value: unknown, range: Range) => isNumber(value) ? clampSetting(value, range, range.min) : undefined;
+
+function toModel(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() && value.length <= MAX_MODEL_LENGTH ? value.trim() : undefined;
+}
+
+/**
+ * Reads settings from storage or an untrusted object, replacing anything malformed with the defaults.
+ */
+export function toGenerationSettings(value: unknown): GenerationSettings {
+  const { code: codeValue, image: imageValue, variants: variantsValue } = isRecord(value) ? value : {};
+  const code = isRecord(codeValue) ? codeValue : {};
+  const image = isRecord(imageValue) ? imageValue : {};
+  const variants = isRecord(variantsValue) ? variantsValue : {};
+  const defaults = DEFAULT_GENERATION_SETTINGS;
+  return {
+    code: {
+      model: toModel(code.model),
+      temperature: optional(code.temperature, LIMITS.temperature),
+      thinkingBudget: clampSetting(code.thinkingBudget, LIMITS.thinkingBudget, defaults.code.thinkingBudget),
+      seed: optional(code.seed, LIMITS.seed),
+    },
+    image: {
+      width: clampSetting(image.width, LIMITS.size, defaults.image.width),
+      height: clampSetting(image.height, LIMITS.size, defaults.image.height),
+      steps: clampSetting(image.steps, LIMITS.steps, defaults.image.steps),
+      guidance: clampSetting(image.guidance, LIMITS.guidance, defaults.image.guidance),
+      seed: optional(image.seed, LIMITS.seed),
+    },
+    variants: {
+      count: clampSetting(variants.count, LIMITS.variants, defaults.variants.count),
+      concurrency: clampSetting(variants.concurrency, LIMITS.concurrency, defaults.variants.concurrency),
+    },
+  };
+}
+
+export function getDefaultGenerationSettings(): GenerationSettings {
+  try {
+    return toGenerationSettings(JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null'));
+  } catch (e) {
+    console.warn("Could not read generation settings", e);
+    return DEFAULT_GENERATION_SETTINGS;
+  }
+}
+
+export function saveDefaultGenerationSettings(settings: GenerationSettings) {
+  try { localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings)); } catch (e) { console.warn("Could not persist generation settings", e); }
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (LIMITS.seed.max + 1));
+}
+
+/**
+ * Fills in every default so the run can be recorded and repeated exactly.
+ */
+export function resolveCodeParams(settings: CodeSettings, defaultModel: string, defaultTemperature: number): CodeParams {
+  return {
+    model: settings.model || defaultModel,
+    temperature: settings.temperature ?? defaultTemperature,
+    thinkingBudget: settings.thinkingBudget,
+    seed: settings.seed ?? randomSeed(),
+  };
+}
+
+export function resolveImageParams(settings: ImageSettings): ImageParams {
+  return { ...settings, seed: settings.seed ?? randomSeed() };
+}
+
+/**
+ * Strict check for parameters read from an imported creation; returns null for anything malformed.
+ */
+export function toGenerationParams(value: unknown): GenerationParams | null {
+  if (!isRecord(value)) return null;
+  const { code, image } = value;
+  const inRange = (v: unknown, range: Range): v is number => isNumber(v) && v >= range.min && v <= range.max;
+  const params: GenerationParams = {};
+  if (code !== undefined) {
+    if (!isRecord(code)) return null;
+    const { model, temperature, thinkingBudget, seed } = code;
+    const checkedModel = toModel(model);
+    if (!checkedModel || !inRange(temperature, LIMITS.temperature) || !inRange(thinkingBudget, LIMITS.thinkingBudget) || !inRange(seed, LIMITS.seed)) return null;
+    params.code = { model: checkedModel, temperature, thinkingBudget, seed };
+  }
+  if (image !== undefined) {
+    if (!isRecord(image)) return null;
+    const { model, width, height, steps, guidance, seed } = image;
+    if (!inRange(width, LIMITS.size) || !inRange(height, LIMITS.size) || !inRange(steps, LIMITS.steps) || !inRange(guidance, LIMITS.guidance) || !inRange(seed, LIMITS.seed)) return null;
+    const checkedModel = model === undefined ? undefined : toModel(model);
+    if (model !== undefined && !checkedModel) return null;
+    params.image = { model: checkedModel, width, height, steps, guidance, seed };
+  }
+  return params.code || params.image ? params : null;
+}
+
+/**
+ * Settings that rerun a creation's parameters. With `keepSeed` off the seed is
+ * left unset, so the next run varies the result while keeping everything else.
+ */
+export function settingsFromParams(current: GenerationSettings, params: GenerationParams, keepSeed: boolean): GenerationSettings {
+  return {
+    ...current,
+    code: params.code ? { ...params.code, seed: keepSeed ? params.code.seed : undefined } : current.code,
+    image: params.image ? { width: params.image.width, height: params.image.height, steps: params.image.steps, guidance: params.image.guidance, seed: keepSeed ? params.image.seed : undefined } : current.image,
+  };
+}
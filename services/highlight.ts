@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type TokenKind = 'plain' | 'tag' | 'attr' | 'value' | 'comment' | 'doctype' | 'keyword' | 'string' | 'number' | 'property' | 'punct';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+const JS_KEYWORDS = 'async|await|break|case|catch|class|const|continue|default|delete|do|else|export|extends|false|finally|for|from|function|if|import|in|instanceof|let|new|null|of|return|static|super|switch|this|throw|true|try|typeof|undefined|var|void|while|yield';
+
+const JS_PATTERN = new RegExp([
+  String.raw`(?<comment>\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$))`,
+  String.raw`(?<string>"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?|` + '`' + String.raw`(?:\\[\s\S]|[^` + '`' + String.raw`\\])*` + '`?)',
+  String.raw`(?<number>\b(?:0[xX][\da-fA-F]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)\b)`,
+  String.raw`(?<keyword>\b(?:${JS_KEYWORDS})\b)`,
+  String.raw`(?<punct>[{}()[\];,.=<>+\-*/%!&|?:~^])`,
+].join('|'), 'g');
+
+const CSS_PATTERN = new RegExp([
+  String.raw`(?<comment>\/\*[\s\S]*?(?:\*\/|$))`,
+  String.raw`(?<string>"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?)`,
+  String.raw`(?<keyword>@[\w-]+|!important)`,
+  String.raw`(?<property>(?:--)?[a-zA-Z-]+(?=\s*:[^{};]*[;}]))`,
+  String.raw`(?<number>#[\da-fA-F]{3,8}\b|-?\b\d*\.?\d+(?:%|[a-zA-Z]+)?)`,
+  String.raw`(?<punct>[{}():;,>+~])`,
+].join('|'), 'g');
+
+function push(tokens: Token[], kind: TokenKind, text: string) {
+  if (!text) return;
+  const last = tokens[tokens.length - 1];
+  if (last && last.kind === kind) last.text += text;
+  else tokens.push({ kind, text });
+}
+
+function tokenizeWith(pattern: RegExp, source: string, tokens: Token[]) {
+  let index = 0;
+  for (const match of source.matchAll(pattern)) {
+    push(tokens, 'plain', source.slice(index, match.index));
+    const kind = Object.entries(match.groups || {}).find(([, value]) => value !== undefined)?.[0] as TokenKind;
+    push(tokens, kind || 'plain', match[0]);
+    index = match.index! + match[0].length;
+  }
+  push(tokens, 'plain', source.slice(index));
+}
+
+/**
+ * Splits an HTML document into highlight tokens, handing inline <script> and
+ * <style> bodies to the JS and CSS tokenizers. Never throws on malformed input,
+ * and the token texts always concatenate back to the source.
+ */
+export function tokenizeHtml(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    if (source.startsWith('<!--', i)) {
+      const end = source.indexOf('-->', i + 4);
+      const stop = end === -1 ? source.length : end + 3;
+      push(tokens, 'comment', source.slice(i, stop));
+      i = stop;
+      continue;
+    }
+    if (source.startsWith('<!', i)) {
+      const end = source.indexOf('>', i);
+      const stop = end === -1 ? source.length : end + 1;
+      push(tokens, 'doctype', source.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const tag = /^<(\/?)([a-zA-Z][\w:-]*)/.exec(source.slice(i, i + 64));
+    if (!tag) {
+      const next = source.indexOf('<', i + 1);
+      const stop = next === -1 ? source.length : next;
+      push(tokens, 'plain', source.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    push(tokens, 'tag', tag[0]);
+    i += tag[0].length;
+
+    // Attributes up to the closing bracket
+    while (i < source.length && source[i] !== '>') {
+      const rest = source.slice(i);
+      const attr = /^(\s+)|^(\/)|^([^\s=>/]+)|^(=)\s*("[^"]*"?|'[^']*'?|[^\s>]+)?/.exec(rest);
+      if (!attr) { push(tokens, 'plain', source[i]); i++; continue; }
+      if (attr[1]) push(tokens, 'plain', attr[1]);
+      else if (attr[2]) push(tokens, 'tag', attr[2]);
+      else if (attr[3]) push(tokens, 'attr', attr[3]);
+      else {
+        push(tokens, 'punct', '=');
+        push(tokens, 'plain', attr[0].slice(1, attr[0].length - (attr[5]?.length || 0)));
+        if (attr[5]) push(tokens, 'value', attr[5]);
+      }
+      i += attr[0].length;
+    }
+    if (i < source.length) { push(tokens, 'tag', '>'); i++; }
+
+    const name = tag[2].toLowerCase();
+    if (!tag[1] && (name === 'script' || name === 'style') && !source.slice(0, i).endsWith('/>')) {
+      const close = source.slice(i).search(new RegExp(`</${name}`, 'i'));
+      const stop = close === -1 ? source.length : i + close;
+      tokenizeWith(name === 'script' ? JS_PATTERN : CSS_PATTERN, source.slice(i, stop), tokens);
+      i = stop;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Picks the tokenizer for a project file by extension. Vue single-file
+ * components are close enough to HTML to share its tokenizer.
+ */
+export function tokenizeSource(path: string, source: string): Token[] {
+  const extension = path.split('.').pop()?.toLowerCase();
+  if (extension === 'css') {
+    const tokens: Token[] = [];
+    tokenizeWith(CSS_PATTERN, source, tokens);
+    return tokens;
+  }
+  if (extension && ['js', 'mjs', 'jsx', 'ts', 'tsx', 'json'].includes(extension)) {
+    const tokens: Token[] = [];
+    tokenizeWith(JS_PATTERN, source, tokens);
+    return tokens;
+  }
+  return tokenizeHtml(source);
+}
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ArtifactWarningCode =
+  | 'empty'
+  | 'not-a-document'
+  | 'missing-doctype'
+  | 'truncated'
+  | 'missing-entry'
+  | 'external-reference'
+  | 'extracted'
+  | 'sanitized';
+
+export type ArtifactWarningSeverity = 'error' | 'warning' | 'info';
+
+export interface ArtifactWarning {
+  code: ArtifactWarningCode;
+  severity: ArtifactWarningSeverity;
+  message: string;
+  details?: string[]; // e.g. the offending URLs
+}
+
+export const ARTIFACT_WARNING_CODES: ArtifactWarningCode[] = ['empty', 'not-a-document', 'missing-doctype', 'truncated', 'missing-entry', 'external-reference', 'extracted', 'sanitized'];
+export const ARTIFACT_WARNING_SEVERITIES: ArtifactWarningSeverity[] = ['error', 'warning', 'info'];
+
+/** Placeholder document used when the model returns nothing. */
+export const EMPTY_ARTIFACT_HTML = '<!-- Failed to generate content -->';
+
+// Hosts the prompt implicitly relies on (Tailwind, web fonts); anything else is an external asset
+const ALLOWED_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const MAX_LISTED_REFERENCES = 20;
+
+const DOCUMENT_START = /<!DOCTYPE html|<html[\s>]/i;
+
+/**
+ * Pulls the HTML document out of a model response that may wrap it in prose or
+ * markdown fences. Works on partial responses too, so streaming previews can use it.
+ */
+export function extractHtml(text: string): { html: string; extracted: boolean } {
+  const trimmed = text.trim();
+  let body = trimmed;
+
+  if (!body.startsWith('<')) {
+    const fence = body.match(/```[\w-]*[^\S\n]*\n([\s\S]*?)(?:\n?```|$)/);
+    if (fence) body = fence[1];
+  }
+  const start = body.search(DOCUMENT_START);
+  if (start > 0) body = body.slice(start);
+  const end = body.search(/<\/html>/i);
+  if (end !== -1) body = body.slice(0, end + '</html>'.length);
+  body = body.replace(/\n?```\s*$/, '').trim();
+
+  return { html: body, extracted: body !== trimmed };
+}
+
+/**
+ * Inserts markup at the top of the document head, creating the head after
+ * <html> when there is none. Never lands after a script, so injected policies
+ * and shims always come first.
+ */
+export function insertIntoHead(html: string, markup: string): string {
+  const head = html.match(/<head(?=[\s>])[^>]*>/i);
+  const root = html.match(/<html(?=[\s>])[^>]*>/i);
+  const at = head?.index !== undefined ? head.index + head[0].length : root?.index !== undefined ? root.index + root[0].length : 0;
+  const script = html.search(/<script(?=[\s>])/i);
+  if (script !== -1 && script < at) return html.slice(0, script) + markup + html.slice(script);
+  if (head || !root) return html.slice(0, at) + markup + html.slice(at);
+  return `${html.slice(0, at)}<head>${markup}</head>${html.slice(at)}`;
+}
+
+function isAllowedHost(url: string): boolean {
+  try {
+    return ALLOWED_HOSTS.includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * URLs the document would load at runtime: script/style/media sources, CSS
+ * url() and @import, and fetch/XHR targets. Plain hyperlinks don't count.
+ */
+export function findExternalReferences(html: string): string[] {
+  const patterns = [
+    /<(?:script|img|source|video|audio|iframe|embed|track|input)\b[^>]*?\ssrc\s*=\s*["']?(https?:)?\/\/([^"'\s>]+)/gi,
+    /<link\b[^>]*?\shref\s*=\s*["']?(https?:)?\/\/([^"'\s>]+)/gi,
+    /url\(\s*["']?(https?:)?\/\/([^"')\s]+)/gi,
+    /@import\s+["'](https?:)?\/\/([^"']+)/gi,
+    /\b(?:fetch|open)\(\s*(?:["'`]\w*["'`]\s*,\s*)?["'`](https?:)?\/\/([^"'`\s]+)/gi,
+  ];
+  const found = new Set<string>();
+  for (const pattern of patterns) {
+    for (const match of html.matchAll(pattern)) {
+      const url = `${match[1] || 'https:'}//${match[2]}`;
+      if (!isAllowedHost(url)) found.add(url);
+    }
+  }
+  return [...found];
+}
+
+/**
+ * Heuristics for output that was cut off mid-stream.
+ */
+function findTruncation(html: string): string | null {
+  if (!/<\/html>\s*$/i.test(html)) return "The document doesn't end with </html>.";
+  const openScripts = (html.match(/<script\b/gi) || []).length;
+  const closedScripts = (html.match(/<\/script>/gi) || []).length;
+  if (openScripts > closedScripts) return "A <script> block is never closed.";
+  return null;
+}
+
+/**
+ * Static checks on a finished document. Safe to rerun on stored HTML, e.g. when
+ * an older revision is restored.
+ */
+export function auditHtml(html: string): ArtifactWarning[] {
+  const warnings: ArtifactWarning[] = [];
+
+  if (!html.trim() || html.trim() === EMPTY_ARTIFACT_HTML) {
+    return [{ code: 'empty', severity: 'error', message: "The model returned no content." }];
+  }
+  if (!DOCUMENT_START.test(html)) {
+    return [{ code: 'not-a-document', severity: 'error', message: "The response is not an HTML document." }];
+  }
+  if (!/^<!DOCTYPE html>/i.test(html.trim())) {
+    warnings.push({ code: 'missing-doctype', severity: 'warning', message: "The document has no <!DOCTYPE html> declaration and may render in quirks mode." });
+  }
+
+  const truncation = findTruncation(html);
+  if (truncation) {
+    warnings.push({ code: 'truncated', severity: 'error', message: `The output looks truncated. ${truncation}` });
+  }
+
+  const references = findExternalReferences(html);
+  if (references.length > 0) {
+    warnings.push({
+      code: 'external-reference',
+      severity: 'warning',
+      message: `Loads ${references.length} external resource${references.length === 1 ? '' : 's'}, which breaks the no-external-assets rule and may be blocked by the preview sandbox.`,
+      details: references.slice(0, MAX_LISTED_REFERENCES),
+    });
+  }
+
+  return warnings;
+}
+
+/**
+ * Removes tags that would hijack the preview: <base> rewrites every relative URL
+ * and a meta refresh navigates the frame away.
+ */
+function sanitizeHtml(html: string): { html: string; removed: string[] } {
+  const removed: string[] = [];
+  const cleaned = html
+    .replace(/<base\b[^>]*>/gi, () => { removed.push('<base>'); return ''; })
+    .replace(/<meta\b[^>]*http-equiv\s*=\s*["']?refresh["']?[^>]*>/gi, () => { removed.push('<meta http-equiv="refresh">'); return ''; });
+  return { html: cleaned, removed };
+}
+
+/**
+ * Full post-processing pass for a finished model response.
+ */
+export function processGeneratedHtml(raw: string): { html: string; warnings: ArtifactWarning[] } {
+  const { html: extractedHtml, extracted } = extractHtml(raw);
+  if (!extractedHtml) return { html: EMPTY_ARTIFACT_HTML, warnings: auditHtml('') };
+
+  const { html, removed } = sanitizeHtml(extractedHtml);
+  const warnings = auditHtml(html);
+  if (extracted) {
+    warnings.push({ code: 'extracted', severity: 'info', message: "Stripped prose or markdown fences around the document." });
+  }
+  if (removed.length > 0) {
+    warnings.push({ code: 'sanitized', severity: 'info', message: "Removed tags that would hijack the preview.", details: [...new Set(removed)] });
+  }
+  return { html, warnings };
+}
+
+export function countBySeverity(warnings: ArtifactWarning[] = []): Record<ArtifactWarningSeverity, number> {
+  const counts: Record<ArtifactWarningSeverity, number> = { error: 0, warning: 0, info: 0 };
+  warnings.forEach(w => counts[w.severity]++);
+  return counts;
+}
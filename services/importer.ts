@@ -0,0 +1,273 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { unzipSync, strFromU8 } from 'fflate';
+import { Creation } from '../components/CreationHistory';
+import { validateCreation, ValidationResult } from './schema';
+import { LIBRARY_BACKUP_FORMAT, LIBRARY_BACKUP_VERSION } from './exporter';
+import { getAssetMimeType, isBinaryAssetPath } from './vfs';
+
+export type CollisionStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+export interface ImportItem {
+  key: string;
+  sourceName: string; // File (and archive entry) the item came from, for error reporting
+  result: ValidationResult;
+  collides: boolean; // Same id as an existing creation or an earlier item in this batch
+}
+
+export interface ImportOutcome {
+  history: Creation[];
+  imported: Creation[];
+  skipped: number;
+}
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+};
+
+let itemCounter = 0;
+
+function makeItem(sourceName: string, result: ValidationResult): ImportItem {
+  return { key: `import-${++itemCounter}`, sourceName, result, collides: false };
+}
+
+function failedItem(sourceName: string, error: string): ImportItem {
+  return makeItem(sourceName, { ok: false, errors: [error] });
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function isLibraryEnvelope(value: unknown): value is { format: 'eburon-library'; creations: unknown[] } {
+  if (typeof value !== 'object' || value === null) return false;
+  const { format, creations } = value as Record<string, unknown>;
+  return format === 'eburon-library' && Array.isArray(creations);
+}
+
+/**
+ * A JSON document may hold one creation, an array of them, or a library
+ * object of the form { format: 'eburon-library', creations: [...] }.
+ */
+function itemsFromJson(text: string, sourceName: string): ImportItem[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e: any) {
+    return [failedItem(sourceName, `Invalid JSON: ${e.message}`)];
+  }
+
+  const list = Array.isArray(parsed) ? parsed : isLibraryEnvelope(parsed) ? parsed.creations : null;
+
+  if (!list) return [makeItem(sourceName, validateCreation(parsed))];
+  return list.map((entry, idx) => makeItem(`${sourceName} [${idx + 1}]`, validateCreation(entry)));
+}
+
+/**
+ * Data URL for an archive entry, or undefined when it is missing or of an unknown type.
+ */
+function inlineFile(files: Record<string, Uint8Array>, path: string): string | undefined {
+  const bytes = files[path];
+  const mimeType = MIME_BY_EXTENSION[path.split('.').pop()?.toLowerCase() || ''];
+  return bytes && mimeType ? `data:${mimeType};base64,${bytesToBase64(bytes)}` : undefined;
+}
+
+/**
+ * Rebuilds a creation from a bundle produced by "Deployable ZIP Bundle" export.
+ */
+function itemFromBundle(files: Record<string, Uint8Array>, manifestPath: string, sourceName: string): ImportItem {
+  const dir = manifestPath.slice(0, manifestPath.length - 'manifest.json'.length);
+  let manifest: any;
+  try {
+    manifest = JSON.parse(strFromU8(files[manifestPath]));
+  } catch (e: any) {
+    return failedItem(sourceName, `Invalid manifest.json: ${e.message}`);
+  }
+  const entry = files[dir + (manifest.entry || 'index.html')];
+  if (!entry) return failedItem(sourceName, "Bundle is missing its index.html.");
+
+  let originalImage: string | undefined;
+  if (typeof manifest.input === 'string') {
+    originalImage = inlineFile(files, dir + manifest.input);
+    if (!originalImage && manifest.input.startsWith('https://')) originalImage = manifest.input;
+  }
+
+  // Bundles from before multi-file inputs only have `input`
+  const inputs = Array.isArray(manifest.inputs) ? manifest.inputs.map((input: any, idx: number) => input && typeof input === 'object' ? {
+    id: `input-${idx + 1}`,
+    name: input.name,
+    mimeType: input.mimeType,
+    caption: input.caption ?? undefined,
+    pages: input.pages ?? undefined,
+    data: typeof input.path === 'string' ? inlineFile(files, dir + input.path) : input.url ?? undefined,
+  } : input) : undefined;
+
+  // Bundles of creations stored as files carry their source tree next to the built preview
+  const projectFiles = Array.isArray(manifest.files) ? manifest.files.map((path: unknown) => {
+    const bytes = typeof path === 'string' ? files[dir + path] : undefined;
+    if (!bytes) return null;
+    const content = isBinaryAssetPath(path as string) ? `data:${getAssetMimeType(path as string)};base64,${bytesToBase64(bytes)}` : strFromU8(bytes);
+    return { path, content };
+  }) : undefined;
+
+  return makeItem(sourceName, validateCreation({
+    id: manifest.id,
+    name: manifest.name,
+    prompt: manifest.prompt ?? undefined,
+    source: manifest.source,
+    timestamp: manifest.createdAt,
+    html: strFromU8(entry),
+    target: projectFiles && manifest.target,
+    files: projectFiles,
+    originalImage,
+    inputs,
+    identifications: manifest.detections,
+    tags: manifest.tags,
+    generation: manifest.generation ?? undefined,
+  }));
+}
+
+/**
+ * Expands a "Backup library" archive, inlining each creation's asset files
+ * before it goes through the regular validation.
+ */
+function itemsFromBackup(files: Record<string, Uint8Array>, indexPath: string, sourceName: string): ImportItem[] {
+  const dir = indexPath.slice(0, indexPath.length - 'library.json'.length);
+  let index: any;
+  try {
+    index = JSON.parse(strFromU8(files[indexPath]));
+  } catch (e: any) {
+    return [failedItem(sourceName, `Invalid library.json: ${e.message}`)];
+  }
+  if (index?.format !== LIBRARY_BACKUP_FORMAT || !Array.isArray(index.creations)) {
+    return [failedItem(sourceName, "library.json is not an Eburon library backup.")];
+  }
+  if (typeof index.version !== 'number' || index.version > LIBRARY_BACKUP_VERSION) {
+    return [failedItem(sourceName, `Unsupported backup version ${index.version}.`)];
+  }
+
+  return index.creations.map((entry: any, idx: number) => {
+    const entryName = `${sourceName} [${idx + 1}]`;
+    if (!entry || typeof entry !== 'object') return makeItem(entryName, validateCreation(entry));
+
+    const missing: string[] = [];
+    const inline = (path: string) => {
+      const data = inlineFile(files, dir + path);
+      if (!data) missing.push(path);
+      return data;
+    };
+    const { asset, ...rest } = entry;
+    if (typeof asset === 'string') rest.originalImage = inline(asset);
+    if (Array.isArray(rest.inputs)) {
+      rest.inputs = rest.inputs.map((input: any) => {
+        if (!input || typeof input !== 'object' || typeof input.asset !== 'string') return input;
+        const { asset: path, ...meta } = input;
+        return { ...meta, data: inline(path) };
+      });
+    }
+
+    const result = validateCreation(rest);
+    if (result.ok) [...new Set(missing)].forEach(path => result.warnings.push(`Input asset "${path}" is missing from the archive.`));
+    return makeItem(entryName, result);
+  });
+}
+
+function itemsFromZip(bytes: Uint8Array, sourceName: string): ImportItem[] {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes);
+  } catch (e: any) {
+    return [failedItem(sourceName, `Unreadable ZIP archive: ${e.message}`)];
+  }
+
+  const jsonPaths = Object.keys(files).filter(path => path.endsWith('.json') && !path.startsWith('__MACOSX/'));
+  if (jsonPaths.length === 0) return [failedItem(sourceName, "Archive contains no creations.")];
+
+  return jsonPaths.flatMap(path => {
+    const entryName = `${sourceName} › ${path}`;
+    if (path === 'manifest.json' || path.endsWith('/manifest.json')) {
+      return [itemFromBundle(files, path, entryName)];
+    }
+    if (path === 'library.json' || path.endsWith('/library.json')) {
+      return itemsFromBackup(files, path, entryName);
+    }
+    return itemsFromJson(strFromU8(files[path]), entryName);
+  });
+}
+
+/**
+ * Parses and validates every creation found in the selected files. Never throws;
+ * problems are reported per item.
+ */
+export async function readImportFiles(files: File[]): Promise<ImportItem[]> {
+  const batches = await Promise.all(files.map(async (file) => {
+    try {
+      if (file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip') {
+        return itemsFromZip(new Uint8Array(await file.arrayBuffer()), file.name);
+      }
+      return itemsFromJson(await file.text(), file.name);
+    } catch (e: any) {
+      return [failedItem(file.name, `Could not read file: ${e.message}`)];
+    }
+  }));
+  return batches.flat();
+}
+
+export function markCollisions(items: ImportItem[], history: Creation[]): ImportItem[] {
+  const seen = new Set(history.map(c => c.id));
+  return items.map(item => {
+    if (!item.result.ok) return item;
+    const collides = seen.has(item.result.creation.id);
+    seen.add(item.result.creation.id);
+    return { ...item, collides };
+  });
+}
+
+/**
+ * Merges valid items into history. Colliding items follow their strategy;
+ * items without a collision are always added.
+ */
+export function applyImport(history: Creation[], items: ImportItem[], strategies: Record<string, CollisionStrategy>): ImportOutcome {
+  let next = [...history];
+  const added: Creation[] = [];
+  const imported: Creation[] = [];
+  let skipped = 0;
+
+  for (const item of items) {
+    if (!item.result.ok) continue;
+    let creation = item.result.creation;
+    const strategy = item.collides ? strategies[item.key] || 'skip' : null;
+
+    if (strategy === 'skip') {
+      skipped++;
+      continue;
+    }
+    if (strategy === 'duplicate') {
+      creation = { ...creation, id: crypto.randomUUID(), name: `${creation.name} (copy)` };
+    }
+
+    if (strategy === 'overwrite') {
+      next = next.map(c => c.id === creation.id ? creation : c);
+      const addedIdx = added.findIndex(c => c.id === creation.id);
+      if (addedIdx !== -1) added[addedIdx] = creation;
+    } else {
+      added.push(creation);
+    }
+    imported.push(creation);
+  }
+
+  return { history: [...added, ...next], imported, skipped };
+}
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, CreationInput } from '../components/CreationHistory';
+
+/** Attachments per generation; each PDF page counts toward the model's own limits separately. */
+export const MAX_INPUT_FILES = 10;
+
+export function getDataUrlMimeType(dataUrl?: string): string | undefined {
+  return dataUrl?.match(/^data:([^;,]+)/)?.[1];
+}
+
+/**
+ * Returns the ordered input list, synthesizing a single entry for creations
+ * saved before multiple inputs were tracked.
+ */
+export function getInputs(creation: Creation): CreationInput[] {
+  if (creation.inputs && creation.inputs.length > 0) return creation.inputs;
+  if (!creation.originalImage && !creation.originalAsset) return [];
+  return [{
+    id: `${creation.id}-original`,
+    name: creation.name,
+    mimeType: creation.originalAsset?.mimeType || getDataUrlMimeType(creation.originalImage) || 'image/png',
+    pages: creation.pages,
+    data: creation.originalImage,
+    asset: creation.originalAsset,
+  }];
+}
+
+/** True when every input's bytes are in memory (or it links a remote URL). */
+export function inputsLoaded(creation: Creation): boolean {
+  return (!creation.originalAsset || !!creation.originalImage) && (creation.inputs || []).every(input => !input.asset || !!input.data);
+}
+
+/** Reads a file as base64 without the data URL prefix. */
+export function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, SourceKind } from '../components/CreationHistory';
+import { getArtifactTarget, getTargetInfo } from './project';
+
+export interface LibraryFilters {
+  query: string;
+  sources: SourceKind[]; // Empty means every source
+  tags: string[]; // A creation must carry all of them
+  favoritesOnly: boolean;
+}
+
+export const EMPTY_FILTERS: LibraryFilters = { query: '', sources: [], tags: [], favoritesOnly: false };
+
+/**
+ * Where a creation came from. Older records predate `source`, so it is inferred from their input.
+ */
+export function getSourceKind(creation: Creation): SourceKind {
+  if (creation.source) return creation.source;
+  if (creation.name.startsWith('FLUX:')) return 'flux';
+  const mimeType = creation.originalAsset?.mimeType || creation.originalImage?.match(/^data:([^;,]+)/)?.[1];
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType || creation.originalImage) return 'image';
+  return 'text';
+}
+
+function searchableText(creation: Creation): string {
+  return [
+    creation.name,
+    creation.prompt,
+    creation.style?.name,
+    creation.files && getTargetInfo(getArtifactTarget(creation)).label,
+    ...(creation.tags || []),
+    ...(creation.identifications || []).map(d => d.label),
+  ].filter(Boolean).join('\n').toLowerCase();
+}
+
+/**
+ * Applies search and filters, then orders pinned creations first and newest first within each group.
+ * Every whitespace-separated query term must match somewhere in name, prompt, tags or detection labels.
+ */
+export function filterCreations(history: Creation[], filters: LibraryFilters): Creation[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return history
+    .filter(c => {
+      if (filters.favoritesOnly && !c.favorite) return false;
+      if (filters.sources.length > 0 && !filters.sources.includes(getSourceKind(c))) return false;
+      if (filters.tags.some(tag => !c.tags?.includes(tag))) return false;
+      if (terms.length === 0) return true;
+      const text = searchableText(c);
+      return terms.every(term => text.includes(term));
+    })
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+}
+
+export function collectTags(history: Creation[]): string[] {
+  return [...new Set(history.flatMap(c => c.tags || []))].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Splits free-form user input into normalized, de-duplicated tags.
+ */
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(',').map(t => t.trim().toLowerCase()).filter(Boolean))];
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { throwIfAborted } from './abort';
+
+// PDF.js is loaded from a CDN script in index.html
+declare global {
+  interface Window {
+    pdfjsLib: any;
+  }
+}
+
+export interface PdfPageInfo {
+  number: number; // 1-based
+  text: string;
+  thumbnail: string; // Small JPEG data URL for the page picker
+}
+
+export interface PdfPageRender {
+  number: number;
+  text: string;
+  image: string; // Base64 JPEG without the data URL prefix
+}
+
+/** Pages beyond this are listed but not selected by default, to keep requests small. */
+export const DEFAULT_PDF_PAGE_LIMIT = 10;
+/** Hard cap on pages sent to the model in one generation. */
+export const MAX_PDF_PAGES = 30;
+const MAX_DOCUMENT_TEXT = 60_000;
+
+const THUMBNAIL_WIDTH = 160;
+// Pages read between yields to the UI, so long documents show their first pages quickly
+const THUMBNAIL_BATCH = 12;
+const RENDER_WIDTH = 1280;
+
+function getPdfJs() {
+  if (!window.pdfjsLib) throw new Error("PDF library not initialized");
+  return window.pdfjsLib;
+}
+
+/**
+ * Opens a PDF from a File or a data URL.
+ */
+export async function openPdf(source: File | string): Promise<any> {
+  const data = typeof source === 'string' ? source : { data: new Uint8Array(await source.arrayBuffer()) };
+  return getPdfJs().getDocument(data).promise;
+}
+
+async function renderToDataUrl(page: any, width: number, quality: number): Promise<string> {
+  const base = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: width / base.width });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  const context = canvas.getContext('2d')!;
+  // JPEG has no alpha; paint the page white first
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+async function extractText(page: any): Promise<string> {
+  const content = await page.getTextContent();
+  return content.items
+    .map((item: any) => item.str + (item.hasEOL ? '\n' : ' '))
+    .join('')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Thumbnail and text for every page, for the page picker. Long documents
+ * report the pages read so far through `onPages` after each batch.
+ */
+export async function readPdfPages(file: File, signal?: AbortSignal, onPages?: (pages: PdfPageInfo[]) => void): Promise<PdfPageInfo[]> {
+  const pdf = await openPdf(file);
+  try {
+    const pages: PdfPageInfo[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      throwIfAborted(signal);
+      const page = await pdf.getPage(number);
+      pages.push({ number, text: await extractText(page), thumbnail: await renderToDataUrl(page, THUMBNAIL_WIDTH, 0.6) });
+      page.cleanup();
+      if (number % THUMBNAIL_BATCH === 0 && number < pdf.numPages) {
+        onPages?.([...pages]);
+        await new Promise(resolve => setTimeout(resolve));
+      }
+    }
+    return pages;
+  } finally {
+    pdf.destroy();
+  }
+}
+
+/**
+ * Renders the chosen pages at model-input resolution, in page order.
+ */
+export async function renderPdfPages(file: File, pageNumbers: number[], signal?: AbortSignal): Promise<{ pages: PdfPageRender[]; pageCount: number }> {
+  const pdf = await openPdf(file);
+  try {
+    const wanted = [...new Set(pageNumbers)].filter(n => n >= 1 && n <= pdf.numPages).sort((a, b) => a - b).slice(0, MAX_PDF_PAGES);
+    const renders: PdfPageRender[] = [];
+    for (const number of wanted) {
+      throwIfAborted(signal);
+      const page = await pdf.getPage(number);
+      const dataUrl = await renderToDataUrl(page, RENDER_WIDTH, 0.85);
+      renders.push({ number, text: await extractText(page), image: dataUrl.split(',')[1] });
+      page.cleanup();
+    }
+    return { pages: renders, pageCount: pdf.numPages };
+  } finally {
+    pdf.destroy();
+  }
+}
+
+/**
+ * Extracted text of the rendered pages, labelled by page and trimmed to a prompt-friendly size.
+ */
+export function buildDocumentText(pages: PdfPageRender[], totalPages: number): string {
+  const text = pages
+    .filter(p => p.text)
+    .map(p => `--- Page ${p.number} of ${totalPages} ---\n${p.text}`)
+    .join('\n\n');
+  return text.length > MAX_DOCUMENT_TEXT ? `${text.slice(0, MAX_DOCUMENT_TEXT)}\n[...truncated]` : text;
+}
@@ -0,0 +1,435 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ArtifactWarning, EMPTY_ARTIFACT_HTML, auditHtml, findExternalReferences, insertIntoHead } from './htmlAudit';
+import { ProjectFile, getAssetMimeType, inlineAssetReferences, mergeProjectFiles, normalizeProjectPath, resolveProjectPath } from './vfs';
+
+export type ArtifactTarget = 'html' | 'react' | 'vue' | 'web-components';
+
+/** What an artifact is built from; `files` is set once it is stored as a virtual file system. */
+export interface ArtifactSource {
+  html: string;
+  target?: ArtifactTarget;
+  files?: ProjectFile[];
+}
+
+export interface TargetInfo {
+  id: ArtifactTarget;
+  label: string;
+  description: string;
+  entry: string; // Module the preview runs when index.html doesn't name one, if any
+  mount: string; // Root markup of the fallback page shell
+  imports: string; // Prompt phrase naming the packages the generated code may import
+  layout: string; // PROJECT LAYOUT rules for the system prompt
+}
+
+export const DEFAULT_TARGET: ArtifactTarget = 'html';
+
+export const ARTIFACT_TARGETS: TargetInfo[] = [
+  {
+    id: 'html',
+    label: 'HTML',
+    description: 'Plain HTML, CSS and JavaScript.',
+    entry: '',
+    mount: '',
+    imports: 'only',
+    layout: `- index.html: the page, linking stylesheets with <link rel="stylesheet" href="styles.css"> and scripts with <script src="script.js"></script> or <script type="module" src="app.js"></script>.
+- Styles in .css files and behaviour in .js files; split larger scripts into ES modules that import each other by relative path.
+- Images and icons as files under assets/, referenced by relative path from the file that uses them. Write new ones as SVG.`,
+  },
+  {
+    id: 'react',
+    label: 'React + TS',
+    description: 'Typed function components, one per file.',
+    entry: 'src/main.tsx',
+    mount: '<div id="root"></div>',
+    imports: 'only "react", "react-dom/client" and',
+    layout: `- index.html: the page shell with <div id="root"></div> and <script type="module" src="/src/main.tsx"></script>.
+- src/main.tsx: renders <App /> with createRoot from "react-dom/client".
+- src/App.tsx, one component per file under src/components/, and hooks, types and data in their own modules.
+- Function components with typed props and hooks for state. Put shared CSS in .css files imported by the modules that use them.`,
+  },
+  {
+    id: 'vue',
+    label: 'Vue SFC',
+    description: 'Single-file components with <script setup>.',
+    entry: 'src/main.js',
+    mount: '<div id="app"></div>',
+    imports: 'only "vue" and',
+    layout: `- index.html: the page shell with <div id="app"></div> and <script type="module" src="/src/main.js"></script>.
+- src/main.js: createApp(App).mount('#app'), importing App from "./App.vue".
+- src/App.vue and one single-file component per file under src/components/, each using <script setup> in plain JavaScript, a <template> and optionally <style scoped>.
+- Shared state and helpers in .js modules. Import components with their .vue extension.`,
+  },
+  {
+    id: 'web-components',
+    label: 'Web Components',
+    description: 'Custom elements in TypeScript, no framework.',
+    entry: 'src/main.ts',
+    mount: '<app-root></app-root>',
+    imports: 'only',
+    layout: `- index.html: the page shell using <app-root></app-root> and <script type="module" src="/src/main.ts"></script>.
+- src/main.ts: imports every component module.
+- One custom element class per file under src/components/, registered with customElements.define, rendering into its shadow root and communicating through attributes, properties and CustomEvents.
+- No framework and no decorators; shared types and helpers in their own .ts modules.`,
+  },
+];
+
+const TARGET_KEY = 'eburon_target';
+
+// Pinned so previews keep behaving the same as the CDNs publish new versions
+const BABEL_URL = 'https://unpkg.com/@babel/standalone@7.26.4/babel.min.js';
+const VUE_URL = 'https://unpkg.com/vue@3.5.13/dist/vue.global.prod.js';
+const SFC_LOADER_URL = 'https://cdn.jsdelivr.net/npm/vue3-sfc-loader@0.9.5/dist/vue3-sfc-loader.js';
+const REACT_VERSION = '19.1.0';
+const REACT_IMPORTS: Record<string, string> = {
+  'react': `https://esm.sh/react@${REACT_VERSION}`,
+  'react/jsx-runtime': `https://esm.sh/react@${REACT_VERSION}/jsx-runtime`,
+  'react-dom': `https://esm.sh/react-dom@${REACT_VERSION}?external=react`,
+  'react-dom/client': `https://esm.sh/react-dom@${REACT_VERSION}/client?external=react`,
+};
+
+export function getTargetInfo(target: ArtifactTarget): TargetInfo {
+  return ARTIFACT_TARGETS.find(t => t.id === target) || ARTIFACT_TARGETS[0];
+}
+
+/** The target a stored artifact is built for; anything without files is a plain document. */
+export function getArtifactTarget(source: ArtifactSource): ArtifactTarget {
+  return source.files && source.target ? source.target : 'html';
+}
+
+export function getSelectedTarget(): ArtifactTarget {
+  try {
+    const saved = localStorage.getItem(TARGET_KEY);
+    return ARTIFACT_TARGETS.some(t => t.id === saved) ? saved as ArtifactTarget : DEFAULT_TARGET;
+  } catch (e) {
+    console.warn("Could not read output target", e);
+    return DEFAULT_TARGET;
+  }
+}
+
+export function setSelectedTarget(target: ArtifactTarget) {
+  try { localStorage.setItem(TARGET_KEY, target); } catch (e) { console.warn("Could not persist output target", e); }
+}
+
+/** Files in the block format the model reads and writes. */
+export function serializeProjectFiles(files: ProjectFile[]): string {
+  return files.map(f => `<eburon-file path="${f.path}">\n${f.content}\n</eburon-file>`).join('\n\n');
+}
+
+/**
+ * Reads <eburon-file> blocks out of a model response. Stray markdown fences inside
+ * a block are dropped, and a later block for the same path replaces the earlier one.
+ */
+export function parseProjectFiles(raw: string): { files: ProjectFile[]; truncated: boolean; extracted: boolean } {
+  const files: ProjectFile[] = [];
+  let truncated = false;
+  let outside = raw.replace(/<eburon-summary>[\s\S]*?<\/eburon-summary>/gi, '');
+
+  outside = outside.replace(/<eburon-file\s+path\s*=\s*["']([^"']+)["']\s*>\n?([\s\S]*?)(<\/eburon-file>|$)/gi, (_, rawPath: string, body: string, close: string) => {
+    if (!close) truncated = true;
+    const path = normalizeProjectPath(rawPath);
+    if (path) {
+      const content = body.replace(/^```[\w-]*[^\S\n]*\n/, '').replace(/\n?```\s*$/, '').replace(/\n$/, '');
+      const existing = files.findIndex(f => f.path === path);
+      if (existing !== -1) files.splice(existing, 1);
+      files.push({ path, content });
+    }
+    return '';
+  });
+
+  return { files, truncated, extracted: outside.replace(/```[\w-]*/g, '').trim() !== '' };
+}
+
+/** The change summary a revision pass writes before its files. */
+export function parseProjectSummary(raw: string): string | null {
+  return raw.match(/<eburon-summary>([\s\S]*?)<\/eburon-summary>/i)?.[1].trim() || null;
+}
+
+/**
+ * OUTPUT and PROJECT LAYOUT sections of the system prompt for a project target.
+ */
+export function buildProjectInstruction(target: ArtifactTarget): string {
+  const info = getTargetInfo(target);
+  return `OUTPUT:
+Return the ${info.label} project as a series of files, each written as
+<eburon-file path="relative/path.ext">
+file contents
+</eburon-file>
+No markdown fences and no prose outside the file blocks. The preview bundles these files in the browser without installing packages, so import ${info.imports} relative paths.
+
+PROJECT LAYOUT:
+${info.layout}`;
+}
+
+function defaultShell(info: TargetInfo): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<script src="https://cdn.tailwindcss.com"></script>
+</head>
+<body>
+${info.mount}
+</body>
+</html>`;
+}
+
+/**
+ * The page shell with local stylesheets and classic scripts inlined and local
+ * module scripts taken out; those become the entry modules the loader runs.
+ */
+function prepareShell(target: ArtifactTarget, sources: Record<string, string>): { shell: string; entries: string[] } {
+  const info = getTargetInfo(target);
+  const entries: string[] = [];
+  const read = (url: string) => {
+    const path = resolveProjectPath('index.html', url);
+    return path && path in sources ? path : null;
+  };
+
+  const shell = (sources['index.html'] || defaultShell(info))
+    .replace(/<script\b([^>]*)>\s*<\/script>/gi, (tag, attrs: string) => {
+      const path = read(attrs.match(/\bsrc\s*=\s*["']([^"']+)["']/i)?.[1] || '');
+      if (!path) return tag;
+      if (/\btype\s*=\s*["']module["']/i.test(attrs)) {
+        entries.push(path);
+        return '';
+      }
+      return `<script>${sources[path].replace(/<\/script/gi, '<\\/script')}</script>`;
+    })
+    .replace(/<link\b([^>]*)>/gi, (tag, attrs: string) => {
+      if (!/\brel\s*=\s*["']stylesheet["']/i.test(attrs)) return tag;
+      const path = read(attrs.match(/\bhref\s*=\s*["']([^"']+)["']/i)?.[1] || '');
+      return path ? `<style data-file="${path}">${sources[path]}</style>` : tag;
+    });
+
+  if (entries.length === 0 && info.entry && info.entry in sources) entries.push(info.entry);
+  return { shell, entries };
+}
+
+/**
+ * Runs inside the preview. Compiles each module with Babel when it needs it,
+ * rewrites relative imports to blob URLs of the compiled dependencies and hands
+ * bare imports the import map doesn't cover to esm.sh. Importing an asset
+ * yields its URL.
+ */
+const MODULE_LOADER = String.raw`(function () {
+  var project = JSON.parse(document.getElementById('eburon-project').textContent);
+  var files = project.files, imports = project.imports, assets = project.assets, urls = {}, loading = {};
+  var SUFFIXES = ['', '.tsx', '.ts', '.jsx', '.js', '.mjs', '.json', '.css', '/index.tsx', '/index.ts', '/index.jsx', '/index.js'];
+  var IMPORT = /(\bimport\s*(?:[\w*{}\s,$]+?\s*from\s*)?|\bexport\s*[\w*{}\s,$]+?\s*from\s*|\bimport\s*\(\s*)(['"])([^'"\n]+)\2/g;
+  function has(path) { return Object.prototype.hasOwnProperty.call(files, path); }
+  function resolve(from, spec) {
+    var parts = spec.charAt(0) === '/' ? [] : from.split('/').slice(0, -1);
+    spec.split('/').forEach(function (part) {
+      if (part === '..') parts.pop(); else if (part && part !== '.') parts.push(part);
+    });
+    var base = parts.join('/');
+    for (var i = 0; i < SUFFIXES.length; i++) if (has(base + SUFFIXES[i])) return base + SUFFIXES[i];
+    throw new Error('Cannot resolve "' + spec + '" from ' + from);
+  }
+  function assetUrl(path) {
+    if (/^data:/.test(files[path])) return files[path];
+    return URL.createObjectURL(new Blob([files[path]], { type: assets[path] }));
+  }
+  function compile(path) {
+    var source = files[path];
+    if (assets[path]) return 'export default ' + JSON.stringify(assetUrl(path)) + ';';
+    if (/\.css$/.test(path)) return 'var s = document.createElement("style"); s.setAttribute("data-file", ' + JSON.stringify(path) + '); s.textContent = ' + JSON.stringify(source) + '; document.head.appendChild(s); export default ' + JSON.stringify(source) + ';';
+    if (/\.json$/.test(path)) return 'export default ' + source + ';';
+    if (!/\.(tsx?|jsx)$/.test(path)) return source;
+    return Babel.transform(source, { filename: path, sourceType: 'module', presets: project.presets }).code;
+  }
+  function rewrite(from, spec) {
+    if (/^\.{0,2}\//.test(spec)) return load(resolve(from, spec));
+    if (/^(https?|data|blob):/.test(spec) || imports[spec]) return spec;
+    return 'https://esm.sh/' + spec + (project.external ? '?external=' + project.external : '');
+  }
+  function load(path) {
+    if (urls[path]) return urls[path];
+    if (loading[path]) throw new Error('Circular import of ' + path + ' is not supported in the preview');
+    loading[path] = true;
+    var code = compile(path).replace(IMPORT, function (match, prefix, quote, spec) {
+      return prefix + quote + rewrite(path, spec) + quote;
+    });
+    urls[path] = URL.createObjectURL(new Blob([code + '\n//# sourceURL=' + path], { type: 'text/javascript' }));
+    return urls[path];
+  }
+  project.entries.reduce(function (chain, entry) {
+    return chain.then(function () { return import(load(entry)); });
+  }, Promise.resolve()).catch(function (err) { console.error(err); });
+})();`;
+
+/**
+ * Runs inside the preview. vue3-sfc-loader compiles .vue files and resolves
+ * imports through getFile, which serves the project files.
+ */
+const VUE_LOADER = String.raw`(function () {
+  var project = JSON.parse(document.getElementById('eburon-project').textContent);
+  var files = project.files;
+  var SUFFIXES = ['', '.vue', '.js', '.mjs', '.json', '.css', '/index.js'];
+  function find(url) {
+    var base = String(url).replace(/^\//, '');
+    for (var i = 0; i < SUFFIXES.length; i++) {
+      if (Object.prototype.hasOwnProperty.call(files, base + SUFFIXES[i])) return base + SUFFIXES[i];
+    }
+    throw new Error('Cannot resolve "' + url + '"');
+  }
+  var options = {
+    moduleCache: { vue: Vue },
+    getFile: function (url) {
+      var path = find(url);
+      return { getContentData: function () { return files[path]; }, type: path.slice(path.lastIndexOf('.')) };
+    },
+    addStyle: function (text) {
+      var style = document.createElement('style');
+      style.textContent = text;
+      document.head.appendChild(style);
+    },
+    handleModule: function (type, getContentData) {
+      if (type === '.css') return Promise.resolve(getContentData(false)).then(function (css) { options.addStyle(css); return {}; });
+    },
+    log: function (level) { console[level].apply(console, Array.prototype.slice.call(arguments, 1)); }
+  };
+  project.entries.reduce(function (chain, entry) {
+    return chain.then(function () { return window['vue3-sfc-loader'].loadModule('/' + entry, options); });
+  }, Promise.resolve()).catch(function (err) { console.error(err); });
+})();`;
+
+/**
+ * Assembles a project into one document the sandbox can run: the page shell
+ * plus a runtime that bundles the source files in the browser. Stylesheets
+ * and markup get asset paths swapped for data URLs, since the preview has no
+ * origin to resolve them against.
+ */
+export function buildProjectPreview(target: ArtifactTarget, files: ProjectFile[]): string {
+  const byPath = new Map(files.map(f => [f.path, f]));
+  const sources = Object.fromEntries(files.map(f => [f.path, f.path.endsWith('.css') ? inlineAssetReferences(f.content, f.path, byPath) : f.content]));
+  const prepared = prepareShell(target, sources);
+  const shell = inlineAssetReferences(prepared.shell, 'index.html', byPath);
+  const entries = prepared.entries;
+  // A plain page whose scripts are all classic is complete once they are inlined
+  if (entries.length === 0 && target === 'html') return shell;
+
+  const isVue = target === 'vue';
+  const imports = target === 'react' ? REACT_IMPORTS : {};
+  const needsBabel = target === 'react' || files.some(f => /\.(tsx?|jsx)$/.test(f.path));
+  const data = JSON.stringify({
+    files: sources,
+    entries,
+    imports,
+    assets: Object.fromEntries(files.flatMap(f => {
+      const mimeType = getAssetMimeType(f.path);
+      return mimeType ? [[f.path, mimeType]] : [];
+    })),
+    presets: target === 'react' ? [['typescript', {}], ['react', { runtime: 'automatic' }]] : [['typescript', {}]],
+    external: target === 'react' ? 'react,react-dom' : '',
+  }).replace(/</g, '\\u003c');
+
+  const runtime = isVue
+    ? `<script src="${VUE_URL}"></script><script src="${SFC_LOADER_URL}"></script>`
+    : `${Object.keys(imports).length > 0 ? `<script type="importmap">${JSON.stringify({ imports })}</script>` : ''}${needsBabel ? `<script src="${BABEL_URL}"></script>` : ''}`;
+  const loader = `<script type="application/json" id="eburon-project">${data}</script><script>${isVue ? VUE_LOADER : MODULE_LOADER}</script>`;
+
+  let html = runtime ? insertIntoHead(shell, runtime) : shell;
+  const bodyEnd = html.search(/<\/body>/i);
+  html = bodyEnd !== -1 ? `${html.slice(0, bodyEnd)}${loader}${html.slice(bodyEnd)}` : `${html}${loader}`;
+  return html;
+}
+
+/**
+ * package.json and Vite config for running an exported project locally. Only
+ * files the project doesn't already have are returned; plain pages need none.
+ */
+export function buildProjectScaffold(target: ArtifactTarget, name: string, files: ProjectFile[]): ProjectFile[] {
+  if (target === 'html') return [];
+  const dependencies: Record<string, string> = {};
+  const devDependencies: Record<string, string> = { vite: '^6.2.0' };
+  let viteConfig: string | null = null;
+  if (target === 'react') {
+    Object.assign(dependencies, { 'react': `^${REACT_VERSION}`, 'react-dom': `^${REACT_VERSION}` });
+    Object.assign(devDependencies, { '@types/react': '^19.1.0', '@types/react-dom': '^19.1.0', '@vitejs/plugin-react': '^5.0.0', 'typescript': '~5.8.2' });
+    viteConfig = `import { defineConfig } from 'vite';\nimport react from '@vitejs/plugin-react';\n\nexport default defineConfig({\n  plugins: [react()],\n});\n`;
+  } else if (target === 'vue') {
+    dependencies['vue'] = '^3.5.13';
+    devDependencies['@vitejs/plugin-vue'] = '^5.2.0';
+    viteConfig = `import { defineConfig } from 'vite';\nimport vue from '@vitejs/plugin-vue';\n\nexport default defineConfig({\n  plugins: [vue()],\n});\n`;
+  } else {
+    devDependencies['typescript'] = '~5.8.2';
+  }
+
+  const packageJson = {
+    name: name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'eburon-project',
+    private: true,
+    version: '0.0.0',
+    type: 'module',
+    scripts: { dev: 'vite', build: 'vite build', preview: 'vite preview' },
+    dependencies,
+    devDependencies,
+  };
+  const scaffold: ProjectFile[] = [{ path: 'package.json', content: JSON.stringify(packageJson, null, 2) + '\n' }];
+  if (viteConfig) scaffold.push({ path: 'vite.config.js', content: viteConfig });
+  if (!files.some(f => f.path === 'index.html')) scaffold.push({ path: 'index.html', content: defaultShell(getTargetInfo(target)).replace('</body>', `<script type="module" src="/${getTargetInfo(target).entry}"></script>\n</body>`) });
+  return scaffold.filter(f => !files.some(existing => existing.path === f.path));
+}
+
+/** The document the sandbox runs for a set of source files; a lone index.html runs as is. */
+export function buildPreviewHtml(target: ArtifactTarget, files: ProjectFile[]): string {
+  if (target === 'html' && files.length === 1 && files[0].path === 'index.html') return files[0].content;
+  return buildProjectPreview(target, files);
+}
+
+/**
+ * Static checks on a project's files. Safe to rerun on stored projects.
+ */
+export function auditProject(target: ArtifactTarget, files: ProjectFile[]): ArtifactWarning[] {
+  if (files.length === 0) {
+    return [{ code: 'empty', severity: 'error', message: "The model returned no project files." }];
+  }
+  const warnings: ArtifactWarning[] = [];
+  const sources = Object.fromEntries(files.map(f => [f.path, f.content]));
+  if (target === 'html') {
+    if (!('index.html' in sources)) warnings.push({ code: 'missing-entry', severity: 'error', message: "The project has no index.html." });
+  } else if (prepareShell(target, sources).entries.length === 0) {
+    warnings.push({ code: 'missing-entry', severity: 'error', message: `The project has no entry module; expected ${getTargetInfo(target).entry} or a module script in index.html.` });
+  }
+
+  const references = [...new Set(files.flatMap(f => findExternalReferences(f.content)))];
+  if (references.length > 0) {
+    warnings.push({
+      code: 'external-reference',
+      severity: 'warning',
+      message: `Loads ${references.length} external resource${references.length === 1 ? '' : 's'}, which breaks the no-external-assets rule and may be blocked by the preview sandbox.`,
+      details: references.slice(0, 20),
+    });
+  }
+  return warnings;
+}
+
+/**
+ * Warnings for whatever a stored artifact is built from.
+ */
+export function auditSource(source: ArtifactSource): ArtifactWarning[] {
+  return source.files ? auditProject(getArtifactTarget(source), source.files) : auditHtml(source.html);
+}
+
+/**
+ * Full post-processing pass for a project response. Revision passes only
+ * return changed files, so they are merged over `base`.
+ */
+export function processGeneratedProject(target: ArtifactTarget, raw: string, base: ProjectFile[] = []): { html: string; files: ProjectFile[]; warnings: ArtifactWarning[] } {
+  const parsed = parseProjectFiles(raw);
+  const files = mergeProjectFiles(base, parsed.files);
+  if (files.length === 0) return { html: EMPTY_ARTIFACT_HTML, files, warnings: auditProject(target, files) };
+
+  const warnings = auditProject(target, files);
+  if (parsed.truncated) {
+    warnings.push({ code: 'truncated', severity: 'error', message: `The output looks truncated. ${parsed.files[parsed.files.length - 1]?.path || 'The last file'} is never closed.` });
+  }
+  if (parsed.extracted) {
+    warnings.push({ code: 'extracted', severity: 'info', message: "Stripped prose or markdown fences around the files." });
+  }
+  return { html: buildProjectPreview(target, files), files, warnings };
+}
@@ -0,0 +1,259 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
+import { createAbortError, throwIfAborted } from '../abort';
+import { ModelProvider, CodeRequest, CodeStreamEvent, VisionRequest, ImageRequest, ImageResult, IdentificationResult, BoundingBox } from './types';
+import { clampBox } from '../detections';
+
+// gemini-3-pro-preview is the most advanced model for complex coding and reasoning.
+const GEMINI_CODE_MODEL = 'gemini-3-pro-preview';
+// Faster alternatives selectable in the generation settings
+const GEMINI_CODE_MODELS = [GEMINI_CODE_MODEL, 'gemini-2.5-pro', 'gemini-2.5-flash'];
+// Fallback model if external generation fails
+const GEMINI_IMAGE_MODEL = 'gemini-3-pro-image-preview';
+
+// Hugging Face FLUX.2 Klein 9B Endpoint
+const FLUX_API_BASE = 'https://black-forest-labs-flux-2-klein-9b.hf.space/gradio_api/call/generate';
+const FLUX_MODEL = 'FLUX.2 Klein 9B';
+// The distilled checkpoint is tuned for few steps; longer runs use the base model
+const FLUX_DISTILLED_MAX_STEPS = 4;
+
+// Initialize the API client inside functions to ensure the most up-to-date API key is used.
+const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+/**
+ * Checks if the error is related to project billing/quota or entity not found.
+ */
+function isQuotaOrAuthError(error: any): boolean {
+  const message = error?.message || "";
+  const status = error?.status || "";
+  const code = error?.code || 0;
+  
+  return (
+    message.includes("Requested entity was not found") || 
+    message.includes("quota") ||
+    message.includes("RESOURCE_EXHAUSTED") ||
+    status === "RESOURCE_EXHAUSTED" ||
+    code === 429
+  );
+}
+
+/**
+ * Maps billing/quota failures onto the app-wide KEY_RESET_REQUIRED signal.
+ */
+function toProviderError(error: any): any {
+  return isQuotaOrAuthError(error) ? new Error("KEY_RESET_REQUIRED") : error;
+}
+
+async function* streamGeminiCode({ systemInstruction, parts, model = GEMINI_CODE_MODEL, temperature, thinkingBudget, seed, signal }: CodeRequest): AsyncGenerator<CodeStreamEvent> {
+  try {
+    const stream = await getAI().models.generateContentStream({
+      model,
+      contents: { parts: parts },
+      config: {
+        abortSignal: signal,
+        systemInstruction,
+        temperature,
+        seed,
+        thinkingConfig: { thinkingBudget, includeThoughts: true },
+      },
+    });
+
+    for await (const chunk of stream) {
+      throwIfAborted(signal);
+      for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+        if (!part.text) continue;
+        yield { type: part.thought ? 'thinking' : 'text', text: part.text };
+      }
+    }
+  } catch (error) {
+    throw toProviderError(error);
+  }
+}
+
+/**
+ * Converts Gemini's [ymin, xmin, ymax, xmax] on a 0-1000 grid into a fractional box.
+ */
+function fromBox2d(box2d: unknown): BoundingBox | null {
+  if (!Array.isArray(box2d) || box2d.length !== 4) return null;
+  const [ymin, xmin, ymax, xmax] = box2d.map(Number);
+  return clampBox({ x: xmin / 1000, y: ymin / 1000, width: (xmax - xmin) / 1000, height: (ymax - ymin) / 1000 });
+}
+
+async function identifyWithGemini({ systemInstruction, prompt, fileBase64, mimeType, signal }: VisionRequest): Promise<IdentificationResult[]> {
+  try {
+    const response: GenerateContentResponse = await getAI().models.generateContent({
+      model: GEMINI_CODE_MODEL,
+      contents: {
+        parts: [
+          { text: prompt },
+          { inlineData: { data: fileBase64, mimeType: mimeType } }
+        ]
+      },
+      config: {
+        abortSignal: signal,
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              label: { type: Type.STRING },
+              confidence: { type: Type.NUMBER },
+              description: { type: Type.STRING },
+              type: { type: Type.STRING },
+              box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+            },
+            required: ["label", "confidence", "description", "type"]
+          }
+        }
+      }
+    });
+
+    const detections: any[] = JSON.parse(response.text || "[]");
+    return detections.map(({ box_2d, ...detection }) => {
+      const box = fromBox2d(box_2d);
+      return box ? { ...detection, box } : detection;
+    });
+  } catch (error) {
+    throw toProviderError(error);
+  }
+}
+
+/**
+ * Generates an image using FLUX.2 Klein 9B on Hugging Face. The seed is always
+ * sent, never randomized server-side, so a result can be reproduced. Falls back
+ * to Gemini, which ignores the requested parameters, and reports it as inexact.
+ */
+export async function generateFluxImage({ prompt, width, height, steps, guidance, seed, signal }: ImageRequest): Promise<ImageResult> {
+  try {
+    // Step 1: POST to get Event ID
+    const postResponse = await fetch(FLUX_API_BASE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal,
+      body: JSON.stringify({
+        data: [
+          prompt,                 // [0] Prompt
+          null,                   // [1] Input Image(s)
+          steps <= FLUX_DISTILLED_MAX_STEPS ? "Distilled (4 steps)" : "Base (50 steps)", // [2] Mode
+          seed,                   // [3] Seed
+          false,                  // [4] Randomize seed
+          width,                  // [5] Width
+          height,                 // [6] Height
+          steps,                  // [7] Number of inference steps
+          guidance,               // [8] Guidance scale
+          false                   // [9] Prompt Upsampling
+        ]
+      })
+    });
+
+    if (!postResponse.ok) throw new Error("Failed to initiate FLUX generation");
+    const { event_id } = await postResponse.json();
+
+    // Step 2: GET the result via SSE or simple fetch if possible
+    const resultUrl = `${FLUX_API_BASE}/${event_id}`;
+    
+    // Gradio SSE handling: We need to poll or read the stream for 'complete'
+    throwIfAborted(signal);
+    const image = await new Promise<string>((resolve, reject) => {
+      const eventSource = new EventSource(resultUrl);
+      let timeout: ReturnType<typeof setTimeout>;
+
+      // Tear down the SSE connection and timer however the request ends
+      const cleanup = () => {
+        eventSource.close();
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(createAbortError());
+      };
+      signal?.addEventListener('abort', onAbort);
+      
+      eventSource.onmessage = (event) => {
+        const data = JSON.parse(event.data);
+        if (data.msg === 'process_completed') {
+          cleanup();
+          if (data.success && data.output && data.output.data && data.output.data[0]) {
+            // Gradio returns a list of results, the first is the image object
+            const result = data.output.data[0];
+            // If it's a URL, use it directly (Hugging Face often returns temp URLs)
+            if (typeof result === 'string') resolve(result);
+            if (result.url) resolve(result.url);
+          }
+          reject(new Error("FLUX generation failed to return image data"));
+        }
+      };
+
+      eventSource.onerror = (err) => {
+        cleanup();
+        reject(err);
+      };
+
+      // Timeout after 60 seconds
+      timeout = setTimeout(() => {
+        cleanup();
+        reject(new Error("FLUX generation timed out"));
+      }, 60000);
+    });
+    return { image, model: FLUX_MODEL, exact: true };
+  } catch (error) {
+    if (signal?.aborted) throw createAbortError();
+    console.error("FLUX Generation Error, falling back to Gemini:", error);
+    return { image: await generateAIImage(prompt, signal), model: GEMINI_IMAGE_MODEL, exact: false }; // Fallback
+  }
+}
+
+/**
+ * Fallback image generation using Gemini
+ */
+export async function generateAIImage(prompt: string, signal?: AbortSignal): Promise<string> {
+  try {
+    const response = await getAI().models.generateContent({
+      model: GEMINI_IMAGE_MODEL,
+      contents: {
+        parts: [{ text: `Generate a photorealistic, cinematic, and highly detailed artistic concept of: ${prompt}. High resolution, 4k, digital art style.` }],
+      },
+      config: {
+        abortSignal: signal,
+        imageConfig: {
+          aspectRatio: "1:1",
+          imageSize: "1K"
+        }
+      }
+    });
+
+    throwIfAborted(signal);
+    const candidate = response.candidates?.[0];
+    if (candidate?.content?.parts) {
+      for (const part of candidate.content.parts) {
+        if (part.inlineData) {
+          return `data:image/png;base64,${part.inlineData.data}`;
+        }
+      }
+    }
+    throw new Error("No image data returned from Gemini Pro Image");
+  } catch (error) {
+    throw toProviderError(error);
+  }
+}
+
+/**
+ * Gemini 3 Pro for code and vision, FLUX.2 Klein (with Gemini fallback) for images.
+ */
+export function createGeminiProvider(): ModelProvider {
+  return {
+    id: 'gemini',
+    label: 'Gemini + FLUX',
+    requiresApiKey: true,
+    codeModels: GEMINI_CODE_MODELS,
+    streamCode: streamGeminiCode,
+    identify: identifyWithGemini,
+    generateImage: generateFluxImage,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelProvider } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+export type ProviderId = 'gemini' | 'mock';
+
+const PROVIDER_STORAGE_KEY = 'eburon_model_provider';
+const DEFAULT_PROVIDER_ID: ProviderId = 'gemini';
+
+const providers: Record<ProviderId, ModelProvider> = {
+  gemini: createGeminiProvider(),
+  mock: createMockProvider(),
+};
+
+function isProviderId(value: string | null): value is ProviderId {
+  return !!value && value in providers;
+}
+
+/**
+ * A `?provider=` URL parameter wins over the persisted choice, so test runs can
+ * force the mock provider without touching storage.
+ */
+function readInitialProviderId(): ProviderId {
+  if (typeof window === 'undefined') return DEFAULT_PROVIDER_ID;
+  const fromUrl = new URLSearchParams(window.location.search).get('provider');
+  if (isProviderId(fromUrl)) return fromUrl;
+  try {
+    const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (isProviderId(stored)) return stored;
+  } catch (e) { console.warn("Could not read provider setting", e); }
+  return DEFAULT_PROVIDER_ID;
+}
+
+let activeProviderId: ProviderId = readInitialProviderId();
+
+export function listProviders(): ModelProvider[] {
+  return Object.values(providers);
+}
+
+export function getActiveProviderId(): ProviderId {
+  return activeProviderId;
+}
+
+export function getActiveProvider(): ModelProvider {
+  return providers[activeProviderId];
+}
+
+export function setActiveProviderId(id: ProviderId) {
+  activeProviderId = id;
+  try { localStorage.setItem(PROVIDER_STORAGE_KEY, id); } catch (e) { console.warn("Could not persist provider setting", e); }
+}
+
+/**
+ * Swaps in a custom provider implementation, e.g. a mock with zero latency in tests.
+ */
+export function registerProvider(id: ProviderId, provider: ModelProvider) {
+  providers[id] = provider;
+}
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createAbortError, throwIfAborted } from '../abort';
+import { ModelProvider, CodeRequest, CodeStreamEvent, VisionRequest, ImageRequest, ImageResult, IdentificationResult, ContentPart } from './types';
+
+export interface MockProviderOptions {
+  /** Delay between streamed chunks and before one-shot responses. 0 makes everything resolve immediately. */
+  latencyMs?: number;
+  /** Characters per streamed HTML chunk. */
+  chunkSize?: number;
+}
+
+const MOCK_DETECTIONS: Omit<IdentificationResult, 'confidence'>[] = [
+  { label: 'Header Bar', description: 'Top navigation strip with title and actions.', type: 'layout_structure', box: { x: 0, y: 0, width: 1, height: 0.1 } },
+  { label: 'Primary Button', description: 'High-emphasis call to action.', type: 'interactive_element', box: { x: 0.35, y: 0.7, width: 0.3, height: 0.08 } },
+  { label: 'Content Card', description: 'Rounded container grouping related content.', type: 'ui_component', box: { x: 0.1, y: 0.2, width: 0.8, height: 0.45 } },
+  { label: 'Accent Gradient', description: 'Diagonal color wash behind the main content.', type: 'aesthetic_detail', box: { x: 0, y: 0.1, width: 1, height: 0.9 } },
+];
+
+/**
+ * FNV-1a hash, so identical inputs always produce identical mock output.
+ */
+function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal);
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function describeParts(parts: ContentPart[]): string {
+  return parts.map(p => 'text' in p ? p.text : `[${p.inlineData.mimeType}:${p.inlineData.data.length}]`).join('\n');
+}
+
+/**
+ * Small, self-contained interactive page. Title and hue derive from the request
+ * and seed so different prompts are distinguishable while staying reproducible.
+ */
+export function buildMockHtml(request: Pick<CodeRequest, 'parts' | 'seed'>): string {
+  const source = describeParts(request.parts) + (request.seed !== undefined ? `\n${request.seed}` : '');
+  const hash = hashString(source);
+  const hue = hash % 360;
+  const firstText = request.parts.find((p): p is { text: string } => 'text' in p)?.text || 'Mock Artifact';
+  const title = escapeHtml(firstText.split('\n')[0].slice(0, 60));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="eburon-change-summary" content="Mock provider response #${hash.toString(16)}.">
+<title>${title}</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: system-ui, sans-serif; background: linear-gradient(135deg, hsl(${hue} 70% 12%), hsl(${(hue + 40) % 360} 60% 6%)); color: #fafafa; }
+  .card { padding: 2rem 2.5rem; border-radius: 1.5rem; background: rgba(255,255,255,0.06); border: 1px solid rgba(255,255,255,0.12); text-align: center; max-width: 28rem; }
+  h1 { font-size: 1.25rem; margin: 0 0 0.5rem; }
+  p { opacity: 0.6; font-size: 0.8rem; margin: 0 0 1.5rem; }
+  button { background: hsl(${hue} 80% 60%); color: #000; border: 0; border-radius: 999px; padding: 0.75rem 1.75rem; font-weight: 700; cursor: pointer; }
+  output { display: block; font-size: 3rem; font-weight: 800; margin-bottom: 1rem; }
+</style>
+</head>
+<body>
+<div class="card">
+  <h1>${title}</h1>
+  <p>Generated offline by the mock provider · ${hash.toString(16)}</p>
+  <output id="count">0</output>
+  <button id="increment">Increment</button>
+</div>
+<script>
+  const count = document.getElementById('count');
+  document.getElementById('increment').addEventListener('click', () => {
+    count.textContent = String(Number(count.textContent) + 1);
+  });
+</script>
+</body>
+</html>`;
+}
+
+export function buildMockImage(prompt: string, width = 1024, height = 1024, seed = 0): string {
+  const hue = hashString(`${prompt}\n${seed}`) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 1024 1024" preserveAspectRatio="xMidYMid slice"><defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},80%,55%)"/><stop offset="1" stop-color="hsl(${(hue + 90) % 360},70%,20%)"/></linearGradient></defs><rect width="1024" height="1024" fill="url(#g)"/><circle cx="512" cy="512" r="260" fill="none" stroke="rgba(255,255,255,0.35)" stroke-width="24"/><text x="512" y="960" font-family="monospace" font-size="36" fill="rgba(255,255,255,0.8)" text-anchor="middle">${escapeHtml(prompt.slice(0, 40))}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * Deterministic offline provider for local development and automated tests.
+ * Needs no network access or API key.
+ */
+export function createMockProvider({ latencyMs = 40, chunkSize = 160 }: MockProviderOptions = {}): ModelProvider {
+  return {
+    id: 'mock',
+    label: 'Offline Mock',
+    requiresApiKey: false,
+    codeModels: ['mock'],
+
+    async *streamCode(request: CodeRequest): AsyncGenerator<CodeStreamEvent> {
+      yield { type: 'thinking', text: 'Planning a mock artifact from the request.' };
+      const html = buildMockHtml(request);
+      for (let i = 0; i < html.length; i += chunkSize) {
+        await wait(latencyMs, request.signal);
+        yield { type: 'text', text: html.slice(i, i + chunkSize) };
+      }
+    },
+
+    async identify({ fileBase64, signal }: VisionRequest): Promise<IdentificationResult[]> {
+      await wait(latencyMs, signal);
+      const hash = hashString(fileBase64);
+      return MOCK_DETECTIONS.map((d, i) => ({ ...d, confidence: 0.95 + ((hash >> i) % 5) / 100 }));
+    },
+
+    async generateImage({ prompt, width, height, seed, signal }: ImageRequest): Promise<ImageResult> {
+      await wait(latencyMs, signal);
+      return { image: buildMockImage(prompt, width, height, seed), model: 'mock', exact: true };
+    },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Element bounds as fractions (0-1) of the image's width and height. */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface IdentificationResult {
+  label: string;
+  confidence: number;
+  description: string;
+  type: string;
+  box?: BoundingBox;
+  inputId?: string; // CreationInput the box was found on
+  page?: number; // PDF page the box was found on, 1-based
+}
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } };
+
+export interface CodeRequest {
+  systemInstruction: string;
+  parts: ContentPart[];
+  model?: string; // One of the provider's codeModels; defaults to the first
+  temperature: number;
+  thinkingBudget: number;
+  seed?: number;
+  signal?: AbortSignal;
+}
+
+export type CodeStreamEvent =
+  | { type: 'thinking'; text: string }
+  | { type: 'text'; text: string };
+
+export interface VisionRequest {
+  systemInstruction: string;
+  prompt: string;
+  fileBase64: string;
+  mimeType: string;
+  signal?: AbortSignal;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  width: number;
+  height: number;
+  steps: number;
+  guidance: number;
+  seed: number;
+  signal?: AbortSignal;
+}
+
+/** An image and the model that actually produced it. */
+export interface ImageResult {
+  image: string; // URL or data URL
+  model: string;
+  exact: boolean; // False when a fallback ignored the requested size, steps, guidance and seed
+}
+
+/**
+ * Backend that performs the three model-facing jobs of the app. Prompts are
+ * owned by services/gemini.ts; providers only transport them.
+ */
+export interface ModelProvider {
+  id: string;
+  label: string;
+  requiresApiKey: boolean;
+  codeModels: string[]; // Selectable code models, default first
+  /** Streams raw model output for code generation, thoughts and text interleaved. */
+  streamCode(request: CodeRequest): AsyncIterable<CodeStreamEvent>;
+  /** Runs the YOLO26 vision pass over an image or document. */
+  identify(request: VisionRequest): Promise<IdentificationResult[]>;
+  /** Produces an image as a URL or data URL, reporting which model ran. */
+  generateImage(request: ImageRequest): Promise<ImageResult>;
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ConsoleEntry } from './console';
+
+export interface AutoFixSettings {
+  enabled: boolean;
+  maxRounds: number; // Repair attempts per failing artifact before giving up
+}
+
+export const DEFAULT_AUTO_FIX: AutoFixSettings = { enabled: false, maxRounds: 2 };
+export const MAX_AUTO_FIX_ROUNDS = 5;
+
+const AUTO_FIX_STORAGE_KEY = 'eburon_auto_fix';
+// Keeps the repair prompt small when an artifact errors in a loop
+const MAX_REPORTED_ERRORS = 10;
+
+export function getAutoFixSettings(): AutoFixSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AUTO_FIX_STORAGE_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_AUTO_FIX;
+    return {
+      enabled: saved.enabled === true,
+      maxRounds: clampRounds(saved.maxRounds),
+    };
+  } catch (e) {
+    console.warn("Could not read auto-fix settings", e);
+    return DEFAULT_AUTO_FIX;
+  }
+}
+
+export function setAutoFixSettings(settings: AutoFixSettings) {
+  try { localStorage.setItem(AUTO_FIX_STORAGE_KEY, JSON.stringify(settings)); } catch (e) { console.warn("Could not persist auto-fix settings", e); }
+}
+
+export function clampRounds(value: unknown): number {
+  const rounds = typeof value === 'number' && Number.isFinite(value) ? Math.round(value) : DEFAULT_AUTO_FIX.maxRounds;
+  return Math.min(MAX_AUTO_FIX_ROUNDS, Math.max(1, rounds));
+}
+
+/**
+ * Distinct error messages from a preview run, in the order they first appeared.
+ */
+export function collectRuntimeErrors(log: ConsoleEntry[] = []): string[] {
+  const messages = log.filter(e => e.level === 'error').map(e => e.message.trim()).filter(Boolean);
+  return [...new Set(messages)].slice(0, MAX_REPORTED_ERRORS);
+}
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { IdentificationResult } from './gemini';
+
+const REVIEW_STORAGE_KEY = 'eburon_review_scan';
+
+/** Whether generation pauses after the scan so the detections can be approved. */
+export function getReviewEnabled(): boolean {
+  try {
+    return localStorage.getItem(REVIEW_STORAGE_KEY) === 'true';
+  } catch (e) {
+    console.warn("Could not read review setting", e);
+    return false;
+  }
+}
+
+export function setReviewEnabled(enabled: boolean) {
+  try { localStorage.setItem(REVIEW_STORAGE_KEY, String(enabled)); } catch (e) { console.warn("Could not persist review setting", e); }
+}
+
+/**
+ * The detection list as it is written into the generation prompt.
+ */
+export function buildDetectionContext(detections: IdentificationResult[]): string | undefined {
+  if (detections.length === 0) return undefined;
+  return detections.map(d => `- ${d.label} (${d.type}): ${d.description}`).join('\n');
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, CreationRevision, RevisionSource } from '../components/CreationHistory';
+import { ProjectFile } from './vfs';
+
+export function createRevision(html: string, source: RevisionSource, note?: string, files?: ProjectFile[]): CreationRevision {
+  return { id: crypto.randomUUID(), html, timestamp: Date.now(), source, note, files };
+}
+
+/**
+ * Returns the ordered revision list, synthesizing a single initial entry for
+ * creations saved before revisions were tracked.
+ */
+export function getRevisions(creation: Creation): CreationRevision[] {
+  if (creation.revisions && creation.revisions.length > 0) return creation.revisions;
+  return [{
+    id: `${creation.id}-initial`,
+    html: creation.html,
+    timestamp: new Date(creation.timestamp).getTime(),
+    source: 'generate',
+    files: creation.files
+  }];
+}
+
+/**
+ * Makes `html` the current document and records it as the newest revision.
+ * Projects pass the `files` the document was built from.
+ */
+export function appendRevision(creation: Creation, html: string, source: RevisionSource, note?: string, files?: ProjectFile[]): Creation {
+  return {
+    ...creation,
+    html,
+    files,
+    revisions: [...getRevisions(creation), createRevision(html, source, note, files)]
+  };
+}
+
+/**
+ * Restores an earlier revision by appending a copy of it, so nothing after it is lost.
+ */
+export function restoreRevision(creation: Creation, revisionId: string): Creation {
+  const revisions = getRevisions(creation);
+  const index = revisions.findIndex(r => r.id === revisionId);
+  if (index === -1) return creation;
+  return appendRevision(creation, revisions[index].html, 'restore', `Restored v${index + 1}`, revisions[index].files);
+}
@@ -0,0 +1,305 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { downloadBlob } from './exporter';
+import { ConsoleEntry, MAX_CONSOLE_MESSAGE_LENGTH, toConsoleEntry } from './console';
+import { insertIntoHead } from './htmlAudit';
+
+/**
+ * Generated artifacts run in an opaque origin: scripts are allowed, but without
+ * allow-same-origin they can't reach the app's storage, cookies or API key context.
+ */
+export const SANDBOX_PERMISSIONS = 'allow-scripts allow-forms allow-popups allow-modals';
+
+/**
+ * Loose enough for Tailwind, CDN libraries and web fonts, plus blob: modules for
+ * projects bundled in the preview; no network access from scripts.
+ */
+export const DEFAULT_SANDBOX_CSP = [
+  "default-src 'none'",
+  "script-src 'unsafe-inline' 'unsafe-eval' blob: https://cdn.tailwindcss.com https://cdn.jsdelivr.net https://unpkg.com https://cdnjs.cloudflare.com https://esm.sh",
+  "style-src 'unsafe-inline' https://fonts.googleapis.com https://cdn.jsdelivr.net https://unpkg.com https://cdnjs.cloudflare.com",
+  "font-src data: https://fonts.gstatic.com https://cdn.jsdelivr.net https://cdnjs.cloudflare.com",
+  "img-src data: blob: https:",
+  "media-src data: blob:",
+  "connect-src 'none'",
+  "frame-src 'none'",
+  "form-action 'none'",
+  "base-uri 'none'",
+].join('; ');
+
+const CSP_STORAGE_KEY = 'eburon_sandbox_csp';
+const ARTIFACT_STORAGE_PREFIX = 'eburon_artifact_storage:';
+const BRIDGE_CHANNEL = 'eburon-sandbox';
+
+// Bridge request limits, checked on the host side
+const MAX_STORAGE_BYTES = 512 * 1024;
+const MAX_CLIPBOARD_CHARS = 100_000;
+const MAX_DOWNLOAD_BYTES = 20 * 1024 * 1024;
+
+export function getSandboxCsp(): string {
+  try {
+    return localStorage.getItem(CSP_STORAGE_KEY) || DEFAULT_SANDBOX_CSP;
+  } catch (e) {
+    console.warn("Could not read sandbox policy", e);
+    return DEFAULT_SANDBOX_CSP;
+  }
+}
+
+/**
+ * Persists a custom policy; an empty value restores the default.
+ */
+export function setSandboxCsp(csp: string) {
+  const value = csp.trim();
+  try {
+    if (!value || value === DEFAULT_SANDBOX_CSP) localStorage.removeItem(CSP_STORAGE_KEY);
+    else localStorage.setItem(CSP_STORAGE_KEY, value);
+  } catch (e) { console.warn("Could not persist sandbox policy", e); }
+}
+
+function readArtifactStorage(namespace: string): Record<string, string> {
+  try {
+    const saved = localStorage.getItem(ARTIFACT_STORAGE_PREFIX + namespace);
+    const parsed = saved ? JSON.parse(saved) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeArtifactStorage(namespace: string, data: Record<string, string>) {
+  const serialized = JSON.stringify(data);
+  if (serialized.length > MAX_STORAGE_BYTES) throw new Error("Artifact storage quota exceeded");
+  localStorage.setItem(ARTIFACT_STORAGE_PREFIX + namespace, serialized);
+}
+
+export function clearArtifactStorage(namespace: string) {
+  try { localStorage.removeItem(ARTIFACT_STORAGE_PREFIX + namespace); } catch { /* nothing to clear */ }
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Runs inside the artifact before any generated script. Replaces the storage and
+ * clipboard APIs the opaque origin blocks with ones backed by the host bridge, and
+ * routes blob/data link downloads through it too.
+ */
+function buildBridgeScript(snapshot: Record<string, string>): string {
+  const initial = JSON.stringify(snapshot).replace(/</g, '\\u003c');
+  return `<script>(function () {
+  var CHANNEL = '${BRIDGE_CHANNEL}';
+  var seq = 0, pending = {};
+  function call(type, payload) {
+    return new Promise(function (resolve, reject) {
+      var id = ++seq;
+      pending[id] = { resolve: resolve, reject: reject };
+      parent.postMessage({ channel: CHANNEL, id: id, type: type, payload: payload }, '*');
+    });
+  }
+  window.addEventListener('message', function (e) {
+    var d = e.data;
+    if (e.source !== parent || !d || d.channel !== CHANNEL || !pending[d.id]) return;
+    var p = pending[d.id];
+    delete pending[d.id];
+    if (d.ok) p.resolve(d.result); else p.reject(new Error(d.error || 'Bridge request failed'));
+  });
+  function warn(err) { console.warn('[eburon bridge]', err && err.message ? err.message : err); }
+
+  var data = ${initial};
+  var storage = {
+    getItem: function (k) { k = String(k); return Object.prototype.hasOwnProperty.call(data, k) ? data[k] : null; },
+    setItem: function (k, v) { data[String(k)] = String(v); call('storage.set', { key: String(k), value: String(v) }).catch(warn); },
+    removeItem: function (k) { delete data[String(k)]; call('storage.remove', { key: String(k) }).catch(warn); },
+    clear: function () { data = {}; call('storage.clear').catch(warn); },
+    key: function (i) { var keys = Object.keys(data); return i < keys.length ? keys[i] : null; },
+    get length() { return Object.keys(data).length; }
+  };
+  try { Object.defineProperty(window, 'localStorage', { configurable: true, get: function () { return storage; } }); } catch (e) { warn(e); }
+
+  function copyText(text) { return call('clipboard.write', { text: String(text) }); }
+  function download(filename, content, mimeType) {
+    return call('download', { filename: String(filename || 'download'), content: content, mimeType: mimeType });
+  }
+  try {
+    if (navigator.clipboard) Object.defineProperty(navigator.clipboard, 'writeText', { configurable: true, value: copyText });
+  } catch (e) { warn(e); }
+
+  // The policy blocks fetching blob: and data: URLs, so blobs are remembered as their URLs are made
+  var blobs = {};
+  var createObjectURL = URL.createObjectURL, revokeObjectURL = URL.revokeObjectURL;
+  URL.createObjectURL = function (obj) {
+    var url = createObjectURL.call(URL, obj);
+    if (obj instanceof Blob) blobs[url] = obj;
+    return url;
+  };
+  URL.revokeObjectURL = function (url) {
+    delete blobs[url];
+    return revokeObjectURL.call(URL, url);
+  };
+  function dataUrlToBlob(url) {
+    var comma = url.indexOf(',');
+    var meta = url.slice(5, comma), body = url.slice(comma + 1);
+    var type = meta.split(';')[0] || 'text/plain';
+    if (!/;base64$/i.test(meta)) return new Blob([decodeURIComponent(body)], { type: type });
+    var binary = atob(body), bytes = new Uint8Array(binary.length);
+    for (var i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: type });
+  }
+  // Sends a blob: or data: download link through the bridge; false leaves the click alone
+  function downloadLink(link) {
+    if (!link.hasAttribute('download')) return false;
+    var blob = null;
+    try { blob = /^blob:/.test(link.href) ? blobs[link.href] : /^data:/.test(link.href) ? dataUrlToBlob(link.href) : null; } catch (e) { warn(e); }
+    if (!blob) return false;
+    download(link.getAttribute('download') || 'download', blob, blob.type).catch(warn);
+    return true;
+  }
+  document.addEventListener('click', function (e) {
+    var link = e.target && e.target.closest ? e.target.closest('a[download]') : null;
+    if (link && downloadLink(link)) e.preventDefault();
+  }, true);
+  // Detached links clicked from script never reach the document listener
+  var click = HTMLAnchorElement.prototype.click;
+  HTMLAnchorElement.prototype.click = function () {
+    if (!this.isConnected && downloadLink(this)) return;
+    return click.apply(this, arguments);
+  };
+
+  window.eburon = { storage: storage, copyText: copyText, download: download };
+})();</script>`;
+}
+
+/**
+ * Forwards console calls, uncaught errors and unhandled rejections to the host.
+ * The frame's own console keeps working so devtools still show everything.
+ */
+function buildConsoleScript(): string {
+  return `<script>(function () {
+  var CHANNEL = '${BRIDGE_CHANNEL}';
+  var MAX = ${MAX_CONSOLE_MESSAGE_LENGTH};
+  function format(value) {
+    if (value instanceof Error) return value.stack || (value.name + ': ' + value.message);
+    if (typeof value === 'string') return value;
+    try { var json = JSON.stringify(value); return json === undefined ? String(value) : json; } catch (e) { return String(value); }
+  }
+  function send(level, origin, parts) {
+    var message = parts.map(format).join(' ');
+    try {
+      parent.postMessage({ channel: CHANNEL, type: 'console', payload: { level: level, origin: origin, message: message.slice(0, MAX), timestamp: Date.now() } }, '*');
+    } catch (e) { /* the host may be gone */ }
+  }
+  ['log', 'info', 'debug', 'warn', 'error'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      send(level, 'console', Array.prototype.slice.call(arguments));
+      return original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (e) {
+    var where = e.lineno ? ' (line ' + e.lineno + (e.colno ? ':' + e.colno : '') + ')' : '';
+    send('error', 'exception', [e.error || (e.message + where)]);
+  });
+  window.addEventListener('unhandledrejection', function (e) {
+    send('error', 'rejection', ['Unhandled rejection:', e.reason]);
+  });
+  document.addEventListener('securitypolicyviolation', function (e) {
+    send('warn', 'console', ['Blocked by sandbox policy (' + e.effectiveDirective + '):', e.blockedURI || 'inline']);
+  });
+})();</script>`;
+}
+
+/**
+ * Injects the Content-Security-Policy and the bridge and console shims at the top
+ * of the document so they apply before any generated markup or script.
+ */
+export function prepareSandboxDocument(html: string, options: { csp: string; namespace?: string }): string {
+  const snapshot = options.namespace ? readArtifactStorage(options.namespace) : {};
+  const preamble = `<meta http-equiv="Content-Security-Policy" content="${escapeAttribute(options.csp)}">${buildConsoleScript()}${buildBridgeScript(snapshot)}`;
+
+  return insertIntoHead(html, preamble);
+}
+
+function toSafeFilename(name: string): string {
+  const cleaned = name.split(/[\\/]/).pop()!.replace(/[^\w.\- ]+/g, '_').replace(/^\.+/, '').slice(0, 120);
+  return cleaned || 'download';
+}
+
+type BridgeRequest =
+  | { type: 'storage.set'; payload: { key: string; value: string } }
+  | { type: 'storage.remove'; payload: { key: string } }
+  | { type: 'storage.clear'; payload?: undefined }
+  | { type: 'clipboard.write'; payload: { text: string } }
+  | { type: 'download'; payload: { filename: string; content: unknown; mimeType?: string } };
+
+async function handleBridgeRequest(request: BridgeRequest, namespace: string | undefined): Promise<void> {
+  switch (request.type) {
+    case 'storage.set':
+    case 'storage.remove':
+    case 'storage.clear': {
+      // Without a namespace (e.g. streaming previews) storage stays in-memory in the frame
+      if (!namespace) return;
+      const data = request.type === 'storage.clear' ? {} : readArtifactStorage(namespace);
+      if (request.type === 'storage.set') {
+        if (typeof request.payload?.key !== 'string' || typeof request.payload.value !== 'string') throw new Error("Invalid storage entry");
+        data[request.payload.key] = request.payload.value;
+      } else if (request.type === 'storage.remove') {
+        delete data[String(request.payload?.key)];
+      }
+      writeArtifactStorage(namespace, data);
+      return;
+    }
+    case 'clipboard.write': {
+      const text = request.payload?.text;
+      if (typeof text !== 'string' || text.length > MAX_CLIPBOARD_CHARS) throw new Error("Clipboard text rejected");
+      await navigator.clipboard.writeText(text);
+      return;
+    }
+    case 'download': {
+      // The frame is untrusted, so the payload is checked rather than taken at its declared type
+      const payload: unknown = request.payload;
+      if (typeof payload !== 'object' || payload === null) throw new Error("Download rejected");
+      const { filename, content, mimeType } = payload as Record<string, unknown>;
+      const type = typeof mimeType === 'string' && /^[\w.+-]+\/[\w.+-]+$/.test(mimeType) ? mimeType : 'application/octet-stream';
+      const blob = content instanceof Blob ? content : typeof content === 'string' ? new Blob([content], { type }) : null;
+      if (!blob || blob.size > MAX_DOWNLOAD_BYTES) throw new Error("Download rejected");
+      downloadBlob(blob.type ? blob : new Blob([blob], { type }), toSafeFilename(String(filename)));
+      return;
+    }
+    default:
+      throw new Error("Unsupported bridge request");
+  }
+}
+
+export interface SandboxBridgeOptions {
+  namespace?: string;
+  onConsole?: (entry: ConsoleEntry) => void;
+}
+
+/**
+ * Answers bridge requests from one preview frame. Messages are only accepted from
+ * that frame's window, and only the request types above are understood.
+ * Returns a function that detaches the listener.
+ */
+export function attachSandboxBridge(frame: HTMLIFrameElement, { namespace, onConsole }: SandboxBridgeOptions = {}): () => void {
+  const onMessage = (event: MessageEvent) => {
+    const data = event.data;
+    if (event.source !== frame.contentWindow || !data || data.channel !== BRIDGE_CHANNEL) return;
+    if (data.type === 'console') {
+      const entry = toConsoleEntry(data.payload);
+      if (entry) onConsole?.(entry);
+      return;
+    }
+    if (typeof data.id !== 'number') return;
+    const reply = (ok: boolean, error?: string) => {
+      frame.contentWindow?.postMessage({ channel: BRIDGE_CHANNEL, id: data.id, ok, error }, '*');
+    };
+    handleBridgeRequest(data as BridgeRequest, namespace)
+      .then(() => reply(true))
+      .catch((e: unknown) => reply(false, e instanceof Error ? e.message : String(e)));
+  };
+  window.addEventListener('message', onMessage);
+  return () => window.removeEventListener('message', onMessage);
+}
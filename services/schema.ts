@@ -0,0 +1,307 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, CreationAlternate, CreationInput, CreationRevision, SourceKind, RevisionSource } from '../components/CreationHistory';
+import { BoundingBox, IdentificationResult, RefinementMessage } from './gemini';
+import { clampBox } from './detections';
+import { StyleSnapshot, toDesignTokens } from './styles';
+import { toGenerationParams } from './generationSettings';
+import { ARTIFACT_TARGETS, ArtifactTarget } from './project';
+import { ProjectFile, normalizeProjectPath } from './vfs';
+import { MAX_CONSOLE_ENTRIES, toConsoleEntry } from './console';
+import { ArtifactWarning, ArtifactWarningCode, ArtifactWarningSeverity, ARTIFACT_WARNING_CODES, ARTIFACT_WARNING_SEVERITIES } from './htmlAudit';
+
+/**
+ * Version written into exported creations. Files without one are treated as
+ * version 0, the shape the app exported before versioning existed.
+ */
+export const CREATION_SCHEMA_VERSION = 1;
+
+const MAX_NAME_LENGTH = 200;
+const MAX_HTML_LENGTH = 5 * 1024 * 1024;
+const MAX_IMAGE_LENGTH = 30 * 1024 * 1024;
+const ID_PATTERN = /^[\w.:-]{1,128}$/;
+const DATA_URL_PATTERN = /^data:(image\/(png|jpeg|webp|gif|svg\+xml)|application\/pdf);base64,[A-Za-z0-9+/=]+$/;
+const SOURCE_KINDS: SourceKind[] = ['image', 'pdf', 'text', 'flux'];
+const REVISION_SOURCES: RevisionSource[] = ['generate', 'refine', 'restore', 'repair', 'edit'];
+const MAX_PROJECT_FILES = 200;
+const MAX_ALTERNATES = 10;
+
+export type ValidationResult =
+  | { ok: true; creation: Creation; warnings: string[] }
+  | { ok: false; errors: string[] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown, maxLength = Infinity): value is string {
+  return typeof value === 'string' && value.length <= maxLength;
+}
+
+/**
+ * Keeps the valid entries of an optional array field and reports how many were dropped.
+ */
+function validList<T>(value: unknown, field: string, check: (item: unknown) => T | null, warnings: string[], errors: string[]): T[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push(`"${field}" must be a list.`);
+    return undefined;
+  }
+  const items = value.map(check).filter((item): item is T => item !== null);
+  if (items.length < value.length) warnings.push(`Dropped ${value.length - items.length} malformed ${field} entr${value.length - items.length === 1 ? 'y' : 'ies'}.`);
+  return items;
+}
+
+function isPageNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+function checkIdentification(item: unknown): IdentificationResult | null {
+  if (!isRecord(item)) return null;
+  const { label, confidence, description, type, box, inputId, page } = item;
+  if (!isString(label, 200) || !isString(description, 2000) || !isString(type, 100)) return null;
+  if (typeof confidence !== 'number' || !(confidence >= 0 && confidence <= 1)) return null;
+  const result: IdentificationResult = { label, confidence, description, type };
+  // Location is optional; a malformed box or reference drops just the location
+  const bounds = isRecord(box) ? clampBox(box as unknown as BoundingBox) : null;
+  if (bounds) result.box = bounds;
+  if (isString(inputId) && ID_PATTERN.test(inputId)) result.inputId = inputId;
+  if (isPageNumber(page)) result.page = page;
+  return result;
+}
+
+function checkRefinement(item: unknown): RefinementMessage | null {
+  if (!isRecord(item)) return null;
+  const { role, text, timestamp } = item;
+  if ((role !== 'user' && role !== 'model') || !isString(text, 20000) || typeof timestamp !== 'number' || !Number.isFinite(timestamp)) return null;
+  return { role, text, timestamp };
+}
+
+function checkProjectFile(item: unknown): ProjectFile | null {
+  if (!isRecord(item) || !isString(item.path) || !isString(item.content, MAX_HTML_LENGTH)) return null;
+  const path = normalizeProjectPath(item.path);
+  return path ? { path, content: item.content } : null;
+}
+
+/**
+ * A project file list is only usable whole, so one bad entry rejects it.
+ */
+function checkProjectFiles(value: unknown): ProjectFile[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_PROJECT_FILES) return null;
+  const files = value.map(checkProjectFile);
+  if (files.some(f => f === null)) return null;
+  return new Set(files.map(f => f!.path)).size === files.length ? files as ProjectFile[] : null;
+}
+
+function checkRevision(item: unknown): CreationRevision | null {
+  if (!isRecord(item)) return null;
+  const { id, html, timestamp, source, note, files } = item;
+  if (!isString(id) || !ID_PATTERN.test(id) || !isString(html, MAX_HTML_LENGTH)) return null;
+  if (typeof timestamp !== 'number' || !Number.isFinite(timestamp)) return null;
+  if (!REVISION_SOURCES.includes(source as RevisionSource)) return null;
+  if (note !== undefined && !isString(note, 2000)) return null;
+  const projectFiles = files === undefined ? undefined : checkProjectFiles(files);
+  if (projectFiles === null) return null;
+  return { id, html, timestamp, source: source as RevisionSource, note: note as string | undefined, files: projectFiles };
+}
+
+function checkInput(item: unknown): CreationInput | null {
+  if (!isRecord(item)) return null;
+  const { id, name, mimeType, caption, pages, data } = item;
+  if (!isString(id) || !ID_PATTERN.test(id) || !isString(name, MAX_NAME_LENGTH) || !isString(mimeType, 100)) return null;
+  if (caption !== undefined && !isString(caption, 2000)) return null;
+  if (pages !== undefined && !(Array.isArray(pages) && pages.every(isPageNumber))) return null;
+  // Inputs stored in another browser arrive without data and stay listed by name
+  if (data !== undefined && !(isString(data, MAX_IMAGE_LENGTH) && (DATA_URL_PATTERN.test(data) || data.startsWith('https://')))) return null;
+  return {
+    id,
+    name,
+    mimeType,
+    caption: (caption as string | undefined) || undefined,
+    pages: (pages as number[] | undefined)?.length ? pages as number[] : undefined,
+    data: data as string | undefined,
+  };
+}
+
+function checkStyle(value: unknown, warnings: string[]): StyleSnapshot | undefined {
+  if (value === undefined) return undefined;
+  if (!isRecord(value) || !isString(value.id, 128) || !isString(value.name, MAX_NAME_LENGTH)) {
+    warnings.push("Dropped malformed style preset.");
+    return undefined;
+  }
+  const tokens = value.tokens === undefined ? undefined : toDesignTokens(value.tokens);
+  if (tokens === null) warnings.push("Dropped malformed design tokens.");
+  return { id: value.id, name: value.name, tokens: tokens || undefined };
+}
+
+function checkWarning(item: unknown): ArtifactWarning | null {
+  if (!isRecord(item)) return null;
+  const { code, severity, message, details } = item;
+  if (!ARTIFACT_WARNING_CODES.includes(code as ArtifactWarningCode) || !ARTIFACT_WARNING_SEVERITIES.includes(severity as ArtifactWarningSeverity)) return null;
+  if (!isString(message, 2000)) return null;
+  if (details !== undefined && !(Array.isArray(details) && details.every(d => isString(d, 2000)))) return null;
+  return { code: code as ArtifactWarningCode, severity: severity as ArtifactWarningSeverity, message, details: details as string[] | undefined };
+}
+
+function checkAlternate(item: unknown): CreationAlternate | null {
+  if (!isRecord(item)) return null;
+  const { id, html, target, files, params, warnings } = item;
+  if (!isString(id) || !ID_PATTERN.test(id) || !isString(html, MAX_HTML_LENGTH)) return null;
+  if (target !== undefined && !ARTIFACT_TARGETS.some(t => t.id === target)) return null;
+  const projectFiles = files === undefined ? undefined : checkProjectFiles(files);
+  if (projectFiles === null) return null;
+  const generation = params === undefined ? undefined : toGenerationParams({ code: params });
+  if (generation === null) return null;
+  if (warnings !== undefined && !Array.isArray(warnings)) return null;
+  const htmlWarnings = (warnings as unknown[] | undefined)?.map(checkWarning).filter((w): w is ArtifactWarning => w !== null);
+  return {
+    id,
+    html,
+    target: projectFiles ? target as ArtifactTarget | undefined : undefined,
+    files: projectFiles,
+    params: generation?.code,
+    warnings: htmlWarnings?.length ? htmlWarnings : undefined,
+  };
+}
+
+/**
+ * Validates untrusted input against the Creation schema. Only known fields are
+ * copied onto the result, so unexpected keys in hostile files never reach the app.
+ */
+export function validateCreation(input: unknown): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isRecord(input)) return { ok: false, errors: ["Not a creation object."] };
+
+  const version = input.schemaVersion ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    errors.push(`Invalid schemaVersion.`);
+  } else if (version > CREATION_SCHEMA_VERSION) {
+    errors.push(`Created by a newer app version (schema ${version}, supported ${CREATION_SCHEMA_VERSION}).`);
+  }
+
+  let id = input.id;
+  if (id === undefined) {
+    id = crypto.randomUUID();
+  } else if (!isString(id) || !ID_PATTERN.test(id)) {
+    errors.push(`"id" must be up to 128 letters, digits or . : - _ characters.`);
+  }
+
+  let name = input.name;
+  if (name === undefined || name === '') {
+    name = 'Imported Creation';
+    warnings.push("Missing name; using a placeholder.");
+  } else if (!isString(name, MAX_NAME_LENGTH)) {
+    errors.push(`"name" must be text of at most ${MAX_NAME_LENGTH} characters.`);
+  }
+
+  const html = input.html;
+  if (!isString(html) || html.trim() === '') {
+    errors.push(`"html" is required.`);
+  } else if (html.length > MAX_HTML_LENGTH) {
+    errors.push(`"html" exceeds ${MAX_HTML_LENGTH / (1024 * 1024)} MB.`);
+  }
+
+  let timestamp = new Date();
+  if (input.timestamp !== undefined) {
+    const parsed = typeof input.timestamp === 'string' || typeof input.timestamp === 'number' ? new Date(input.timestamp) : null;
+    if (parsed && !isNaN(parsed.getTime())) timestamp = parsed;
+    else warnings.push("Invalid timestamp; using the import time.");
+  }
+
+  let originalImage: string | undefined;
+  if (input.originalImage !== undefined) {
+    const value = input.originalImage;
+    if (isString(value, MAX_IMAGE_LENGTH) && (DATA_URL_PATTERN.test(value) || value.startsWith('https://'))) {
+      originalImage = value;
+    } else {
+      warnings.push("Dropped original input: only image/PDF data URLs and https links are accepted.");
+    }
+  } else if (input.originalAsset !== undefined) {
+    warnings.push("Original input was stored in another browser and is not included.");
+  }
+
+  if (input.prompt !== undefined && !isString(input.prompt, 20000)) errors.push(`"prompt" must be text.`);
+  if (input.source !== undefined && !SOURCE_KINDS.includes(input.source as SourceKind)) errors.push(`"source" must be one of ${SOURCE_KINDS.join(', ')}.`);
+  for (const flag of ['pinned', 'favorite'] as const) {
+    if (input[flag] !== undefined && typeof input[flag] !== 'boolean') errors.push(`"${flag}" must be true or false.`);
+  }
+
+  const identifications = validList(input.identifications, 'identifications', checkIdentification, warnings, errors);
+  const approvedIdentifications = validList(input.approvedIdentifications, 'approvedIdentifications', checkIdentification, warnings, errors);
+  const refinements = validList(input.refinements, 'refinements', checkRefinement, warnings, errors);
+  const revisions = validList(input.revisions, 'revisions', checkRevision, warnings, errors);
+  const pages = validList(input.pages, 'pages', p => isPageNumber(p) ? p : null, warnings, errors);
+  const inputs = validList(input.inputs, 'inputs', checkInput, warnings, errors);
+  const missingInputs = inputs?.filter(i => !i.data).length || 0;
+  if (missingInputs > 0) warnings.push(`${missingInputs} input file${missingInputs === 1 ? ' is' : 's are'} listed without data.`);
+  const htmlWarnings = validList(input.warnings, 'warnings', checkWarning, warnings, errors);
+  const consoleLog = validList(input.consoleLog, 'consoleLog', toConsoleEntry, warnings, errors);
+  const style = checkStyle(input.style, warnings);
+  const generation = input.generation === undefined ? undefined : toGenerationParams(input.generation);
+  if (generation === null) warnings.push("Dropped malformed generation parameters.");
+
+  // Projects keep their sources next to the built preview; without valid sources the preview still works alone
+  let target: ArtifactTarget | undefined;
+  let files: ProjectFile[] | undefined;
+  if (input.target !== undefined && !ARTIFACT_TARGETS.some(t => t.id === input.target)) {
+    errors.push(`"target" must be one of ${ARTIFACT_TARGETS.map(t => t.id).join(', ')}.`);
+  } else if (input.files !== undefined) {
+    files = checkProjectFiles(input.files) || undefined;
+    target = input.target as ArtifactTarget | undefined;
+    if (!files) {
+      warnings.push("Dropped malformed files; only the built preview was kept.");
+      files = target = undefined;
+    }
+  }
+  const alternates = validList(input.alternates, 'alternates', checkAlternate, warnings, errors);
+  const tags = validList(input.tags, 'tags', t => isString(t, 50) && t.trim() ? t.trim().toLowerCase() : null, warnings, errors);
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const creation: Creation = {
+    id: id as string,
+    name: name as string,
+    html: html as string,
+    target,
+    files,
+    timestamp,
+    originalImage,
+    pages: pages?.length ? pages : undefined,
+    inputs: inputs?.length ? inputs : undefined,
+    prompt: input.prompt as string | undefined,
+    source: input.source as SourceKind | undefined,
+    identifications: identifications?.length ? identifications : undefined,
+    approvedIdentifications,
+    refinements: refinements?.length ? refinements : undefined,
+    // The newest revision must mirror `html`; otherwise let getRevisions synthesize the list
+    revisions: revisions?.length && revisions[revisions.length - 1].html === html ? revisions : undefined,
+    tags: tags?.length ? [...new Set(tags)] : undefined,
+    pinned: input.pinned as boolean | undefined,
+    favorite: input.favorite as boolean | undefined,
+    consoleLog: consoleLog?.length ? consoleLog.slice(-MAX_CONSOLE_ENTRIES) : undefined,
+    warnings: htmlWarnings?.length ? htmlWarnings : undefined,
+    style,
+    generation: generation || undefined,
+    alternates: alternates?.length ? alternates.slice(0, MAX_ALTERNATES) : undefined,
+  };
+  if (revisions?.length && !creation.revisions) warnings.push("Revision history did not match the current HTML and was reset.");
+
+  return { ok: true, creation, warnings };
+}
+
+/**
+ * Plain JSON form of a creation, stamped with the schema version.
+ */
+export function serializeCreation(creation: Creation): Record<string, unknown> {
+  const { originalAsset, inputs, ...rest } = creation;
+  return {
+    schemaVersion: CREATION_SCHEMA_VERSION,
+    ...rest,
+    inputs: inputs?.map(({ asset, ...input }) => input),
+    timestamp: new Date(creation.timestamp).toISOString(),
+  };
+}
@@ -0,0 +1,294 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Creation, CreationInput } from '../components/CreationHistory';
+
+const DB_NAME = 'eburon_app';
+// Bump when the object store layout changes and add a step to upgradeSchema.
+const DB_VERSION = 1;
+const LEGACY_HISTORY_KEY = 'gemini_app_history';
+const LEGACY_MIGRATION_FLAG = 'legacyLocalStorageMigrated';
+
+const CREATIONS_STORE = 'creations';
+const ASSETS_STORE = 'assets';
+const META_STORE = 'meta';
+
+/** Pointer to an input asset stored as a Blob outside the creation record. */
+export interface AssetRef {
+  id: string;
+  mimeType: string;
+  size: number; // Bytes
+}
+
+export interface StorageEstimate {
+  usage: number; // Bytes
+  quota: number; // Bytes, 0 when the browser doesn't report one
+}
+
+type CreationRecord = Omit<Creation, 'timestamp'> & { timestamp: number };
+
+interface AssetRecord {
+  id: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Assets known to be in the database, with the data URL they were written from
+// (or last read as), so unchanged images aren't rewritten on every save
+const persistedAssets = new Map<string, { ref: AssetRef; dataUrl?: string }>();
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function upgradeSchema(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const creations = db.createObjectStore(CREATIONS_STORE, { keyPath: 'id' });
+    creations.createIndex('timestamp', 'timestamp');
+    db.createObjectStore(ASSETS_STORE, { keyPath: 'id' });
+    db.createObjectStore(META_STORE, { keyPath: 'key' });
+  }
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgradeSchema(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  const res = await fetch(dataUrl);
+  return res.blob();
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function toCreation(record: CreationRecord): Creation {
+  return { ...record, timestamp: new Date(record.timestamp) };
+}
+
+interface PendingAsset {
+  asset: AssetRecord;
+  ref: AssetRef;
+  dataUrl: string;
+}
+
+/**
+ * Points at the stored copy of a data URL, converting it to a Blob only when it
+ * isn't already persisted under that id.
+ */
+async function storeAsset(dataUrl: string, assetId: string): Promise<{ ref: AssetRef; pending?: PendingAsset }> {
+  const persisted = persistedAssets.get(assetId);
+  if (persisted && persisted.dataUrl === dataUrl) return { ref: persisted.ref };
+  const blob = await dataUrlToBlob(dataUrl);
+  const ref = { id: assetId, mimeType: blob.type, size: blob.size };
+  return { ref, pending: { asset: { id: assetId, blob }, ref, dataUrl } };
+}
+
+/**
+ * Splits inline data URL inputs out into the assets store; remote URLs stay on the record.
+ */
+async function toRecord(creation: Creation): Promise<{ record: CreationRecord; assets: PendingAsset[] }> {
+  const { originalImage, ...rest } = creation;
+  const record: CreationRecord = { ...rest, timestamp: new Date(creation.timestamp).getTime() };
+  const assets: PendingAsset[] = [];
+
+  if (originalImage?.startsWith('data:')) {
+    const { ref, pending } = await storeAsset(originalImage, creation.originalAsset?.id || creation.id);
+    record.originalAsset = ref;
+    if (pending) assets.push(pending);
+  } else if (originalImage) {
+    record.originalImage = originalImage;
+  }
+
+  if (creation.inputs) {
+    record.inputs = await Promise.all(creation.inputs.map(async ({ data, ...input }) => {
+      if (!data?.startsWith('data:')) return data ? { ...input, data } : input;
+      // The primary input is usually the same file as originalImage; share its asset
+      if (data === originalImage && record.originalAsset) return { ...input, asset: record.originalAsset };
+      const { ref, pending } = await storeAsset(data, input.asset?.id || `${creation.id}:${input.id}`);
+      if (pending) assets.push(pending);
+      return { ...input, asset: ref };
+    }));
+  }
+
+  return { record, assets };
+}
+
+async function readAsset(ref: AssetRef): Promise<string | undefined> {
+  const db = await openDb();
+  const asset: AssetRecord | undefined = await promisify(db.transaction(ASSETS_STORE).objectStore(ASSETS_STORE).get(ref.id));
+  if (!asset) return undefined;
+  const dataUrl = await blobToDataUrl(asset.blob);
+  persistedAssets.set(asset.id, { ref, dataUrl });
+  return dataUrl;
+}
+
+function assetIds(record: CreationRecord): string[] {
+  const ids = [record.originalAsset?.id, ...(record.inputs || []).map(input => input.asset?.id)];
+  return [...new Set(ids.filter((id): id is string => !!id))];
+}
+
+/**
+ * One-time import of the history that used to live in localStorage.
+ */
+async function migrateLegacyHistory(db: IDBDatabase) {
+  const flag = await promisify(db.transaction(META_STORE).objectStore(META_STORE).get(LEGACY_MIGRATION_FLAG));
+  if (flag) return;
+
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (saved) {
+    try {
+      const parsed: any[] = JSON.parse(saved);
+      await saveCreations(parsed.map(item => ({ ...item, timestamp: new Date(item.timestamp) })));
+    } catch (e) {
+      console.error("Failed to migrate legacy history", e);
+      return;
+    }
+  }
+
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put({ key: LEGACY_MIGRATION_FLAG, value: DB_VERSION });
+  await transactionDone(tx);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+}
+
+/**
+ * Loads creation metadata, newest first. Input assets are not read here;
+ * fetch them on demand with loadOriginalImage and loadInputs.
+ */
+export async function loadCreations(): Promise<Creation[]> {
+  const db = await openDb();
+  await migrateLegacyHistory(db);
+  const records: CreationRecord[] = await promisify(db.transaction(CREATIONS_STORE).objectStore(CREATIONS_STORE).getAll());
+  records.forEach(r => {
+    if (r.originalAsset) persistedAssets.set(r.originalAsset.id, { ref: r.originalAsset });
+    r.inputs?.forEach(input => input.asset && persistedAssets.set(input.asset.id, { ref: input.asset }));
+  });
+  return records.sort((a, b) => b.timestamp - a.timestamp).map(toCreation);
+}
+
+/**
+ * Returns the creation's input asset as a data URL, or undefined if it has none.
+ */
+export async function loadOriginalImage(creation: Creation): Promise<string | undefined> {
+  if (creation.originalImage) return creation.originalImage;
+  if (!creation.originalAsset) return undefined;
+  return readAsset(creation.originalAsset);
+}
+
+/**
+ * Returns the creation's inputs with every stored asset read back as a data URL.
+ * Inputs whose asset is missing keep `data` unset.
+ */
+export async function loadInputs(creation: Creation): Promise<CreationInput[]> {
+  const loaded = new Map<string, Promise<string | undefined>>();
+  return Promise.all((creation.inputs || []).map(async input => {
+    if (input.data || !input.asset) return input;
+    // Inputs sharing an asset are read once
+    const id = input.asset.id;
+    if (!loaded.has(id)) loaded.set(id, readAsset(input.asset));
+    const data = await loaded.get(id);
+    return data ? { ...input, data } : input;
+  }));
+}
+
+export async function saveCreations(creations: Creation[]): Promise<void> {
+  if (creations.length === 0) return;
+  // Blob conversion is async, so it must finish before the transaction opens
+  const entries = await Promise.all(creations.map(toRecord));
+  const db = await openDb();
+  const tx = db.transaction([CREATIONS_STORE, ASSETS_STORE], 'readwrite');
+  const stored = tx.objectStore(CREATIONS_STORE);
+  for (const { record, assets } of entries) {
+    // A replaced record (e.g. an overwriting import) may point at assets the new one no longer uses
+    const previous: CreationRecord | undefined = await promisify(stored.get(record.id));
+    const kept = new Set(assetIds(record));
+    for (const assetId of previous ? assetIds(previous) : []) {
+      if (kept.has(assetId)) continue;
+      tx.objectStore(ASSETS_STORE).delete(assetId);
+      persistedAssets.delete(assetId);
+    }
+    stored.put(record);
+    assets.forEach(({ asset }) => tx.objectStore(ASSETS_STORE).put(asset));
+  }
+  await transactionDone(tx);
+  entries.forEach(({ assets }) => assets.forEach(({ ref, dataUrl }) => persistedAssets.set(ref.id, { ref, dataUrl })));
+}
+
+export async function deleteCreations(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction([CREATIONS_STORE, ASSETS_STORE], 'readwrite');
+  const creations = tx.objectStore(CREATIONS_STORE);
+  for (const id of ids) {
+    const record: CreationRecord | undefined = await promisify(creations.get(id));
+    if (record) {
+      for (const assetId of assetIds(record)) {
+        tx.objectStore(ASSETS_STORE).delete(assetId);
+        persistedAssets.delete(assetId);
+      }
+    }
+    creations.delete(id);
+  }
+  await transactionDone(tx);
+}
+
+export async function getStorageEstimate(): Promise<StorageEstimate> {
+  if (!navigator.storage?.estimate) return { usage: 0, quota: 0 };
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+/**
+ * Approximate bytes a creation occupies, used to rank eviction candidates.
+ */
+export function estimateCreationSize(creation: Creation): number {
+  const sourceBytes = (files?: { content: string }[]) => (files || []).reduce((sum, f) => sum + f.content.length, 0);
+  const htmlBytes = (creation.revisions || []).reduce((sum, r) => sum + r.html.length + sourceBytes(r.files), creation.html.length + sourceBytes(creation.files));
+  const alternateBytes = (creation.alternates || []).reduce((sum, a) => sum + a.html.length + sourceBytes(a.files), 0);
+  const assetBytes = creation.originalAsset?.size ?? Math.round((creation.originalImage?.length || 0) * 0.75);
+  // Extra inputs; the primary one shares the original asset or data URL
+  const inputBytes = (creation.inputs || [])
+    .filter(input => input.asset ? input.asset.id !== creation.originalAsset?.id : input.data !== creation.originalImage)
+    .reduce((sum, input) => sum + (input.asset?.size ?? Math.round((input.data?.length || 0) * 0.75)), 0);
+  return htmlBytes + alternateBytes + assetBytes + inputBytes;
+}
+
+export function isQuotaError(error: any): boolean {
+  return error?.name === 'QuotaExceededError';
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface DesignTokens {
+  colors: {
+    primary: string;
+    accent: string;
+    background: string;
+    surface: string;
+    text: string;
+  };
+  fontFamily: string;
+  headingFontFamily?: string;
+  radius: string; // CSS length, e.g. "12px"
+  notes?: string; // Free-form brand rules
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  description: string;
+  guidance: string; // Style rules merged into the system prompt
+  temperature: number;
+  tokens?: DesignTokens;
+  builtIn?: boolean;
+}
+
+/** What a creation records about the style it was generated with. */
+export interface StyleSnapshot {
+  id: string;
+  name: string;
+  tokens?: DesignTokens;
+}
+
+export const DEFAULT_STYLE_PRESET_ID = 'eburon';
+
+export const BUILT_IN_PRESETS: StylePreset[] = [
+  {
+    id: 'eburon',
+    name: 'Eburon',
+    description: 'Glassmorphism, keyframe animation and modern type.',
+    guidance: 'Use CSS glassmorphism, layered gradients, advanced keyframe animations and modern typography. Aim for a polished, futuristic feel.',
+    temperature: 0.8,
+    builtIn: true,
+  },
+  {
+    id: 'minimal',
+    name: 'Minimal',
+    description: 'Generous whitespace, one accent color, no decoration.',
+    guidance: 'Keep it minimal: a neutral palette with a single accent color, generous whitespace, a clear typographic scale and thin 1px borders. No gradients, glass effects or decorative animation; use motion only for state changes.',
+    temperature: 0.6,
+    builtIn: true,
+  },
+  {
+    id: 'brutalist',
+    name: 'Brutalist',
+    description: 'Raw grids, heavy type, hard shadows.',
+    guidance: 'Go brutalist: visible grid structure, heavy black borders, hard offset shadows, oversized monospace or grotesque type, high-contrast flat colors and no rounded corners or blur.',
+    temperature: 0.9,
+    builtIn: true,
+  },
+  {
+    id: 'corporate',
+    name: 'Corporate',
+    description: 'Calm, accessible, dashboard-ready.',
+    guidance: 'Use a calm corporate style: a light theme, a restrained blue palette, system UI fonts, consistent 8px spacing, subtle shadows and WCAG AA contrast. Favor clarity and density over spectacle.',
+    temperature: 0.5,
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_TOKENS: DesignTokens = {
+  colors: { primary: '#2563eb', accent: '#f59e0b', background: '#ffffff', surface: '#f4f4f5', text: '#18181b' },
+  fontFamily: 'Inter, system-ui, sans-serif',
+  radius: '8px',
+};
+
+const CUSTOM_PRESETS_KEY = 'eburon_style_presets';
+const SELECTED_PRESET_KEY = 'eburon_style_preset';
+const MAX_TOKEN_LENGTH = 200;
+const MAX_NOTES_LENGTH = 2000;
+
+const isText = (value: unknown, max = MAX_TOKEN_LENGTH): value is string => typeof value === 'string' && value.length <= max;
+
+/**
+ * Checks token values that end up in a prompt; returns null for anything malformed.
+ */
+export function toDesignTokens(value: unknown): DesignTokens | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { colors, fontFamily, headingFontFamily, radius, notes } = value as Record<string, unknown>;
+  if (typeof colors !== 'object' || colors === null) return null;
+  const colorValues = colors as Record<string, unknown>;
+  const keys = Object.keys(DEFAULT_TOKENS.colors) as (keyof DesignTokens['colors'])[];
+  if (!keys.every(key => isText(colorValues[key]))) return null;
+  if (!isText(fontFamily) || !isText(radius)) return null;
+  if (headingFontFamily !== undefined && !isText(headingFontFamily)) return null;
+  if (notes !== undefined && !isText(notes, MAX_NOTES_LENGTH)) return null;
+  return {
+    colors: Object.fromEntries(keys.map(key => [key, colorValues[key]])) as DesignTokens['colors'],
+    fontFamily,
+    headingFontFamily: isText(headingFontFamily) && headingFontFamily ? headingFontFamily : undefined,
+    radius,
+    notes: isText(notes, MAX_NOTES_LENGTH) && notes ? notes : undefined,
+  };
+}
+
+export function getCustomPresets(): StylePreset[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CUSTOM_PRESETS_KEY) || '[]');
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap((p: any) => {
+      const tokens = toDesignTokens(p?.tokens);
+      if (!isText(p?.id) || !isText(p?.name) || !tokens) return [];
+      return [{ ...createCustomPreset(p.name, tokens), id: p.id }];
+    });
+  } catch (e) {
+    console.warn("Could not read style presets", e);
+    return [];
+  }
+}
+
+export function saveCustomPresets(presets: StylePreset[]) {
+  try {
+    const stored = presets.filter(p => !p.builtIn).map(({ id, name, tokens }) => ({ id, name, tokens }));
+    localStorage.setItem(CUSTOM_PRESETS_KEY, JSON.stringify(stored));
+  } catch (e) {
+    console.warn("Could not persist style presets", e);
+  }
+}
+
+export function getSelectedPresetId(): string {
+  try {
+    return localStorage.getItem(SELECTED_PRESET_KEY) || DEFAULT_STYLE_PRESET_ID;
+  } catch (e) {
+    console.warn("Could not read style preset selection", e);
+    return DEFAULT_STYLE_PRESET_ID;
+  }
+}
+
+export function setSelectedPresetId(id: string) {
+  try { localStorage.setItem(SELECTED_PRESET_KEY, id); } catch (e) { console.warn("Could not persist style preset selection", e); }
+}
+
+/**
+ * A brand preset: the tokens drive the look, so the guidance only asks the model to apply them.
+ */
+export function createCustomPreset(name: string, tokens: DesignTokens): StylePreset {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    description: 'Custom design tokens',
+    guidance: 'Follow the brand design tokens exactly. Derive any extra shades from them rather than introducing new hues.',
+    temperature: 0.6,
+    tokens,
+  };
+}
+
+export function findPreset(presets: StylePreset[], id: string): StylePreset {
+  return presets.find(p => p.id === id) || BUILT_IN_PRESETS[0];
+}
+
+export function toStyleSnapshot(preset: StylePreset): StyleSnapshot {
+  return { id: preset.id, name: preset.name, tokens: preset.tokens };
+}
+
+/**
+ * The VISUAL STYLE section appended to the system prompt.
+ */
+export function buildStyleInstruction(preset: StylePreset): string {
+  let text = `VISUAL STYLE (${preset.name}):\n${preset.guidance}`;
+  const tokens = preset.tokens;
+  if (tokens) {
+    text += `\n\nDESIGN TOKENS (declare these as CSS custom properties on :root and use them throughout):
+--color-primary: ${tokens.colors.primary};
+--color-accent: ${tokens.colors.accent};
+--color-background: ${tokens.colors.background};
+--color-surface: ${tokens.colors.surface};
+--color-text: ${tokens.colors.text};
+--font-body: ${tokens.fontFamily};
+--font-heading: ${tokens.headingFontFamily || tokens.fontFamily};
+--radius: ${tokens.radius};`;
+    if (tokens.notes) text += `\n\nBRAND RULES:\n${tokens.notes}`;
+  }
+  return text;
+}
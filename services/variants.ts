@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ArtifactWarning } from './htmlAudit';
+import { BringToLifeRequest, streamBringToLife } from './gemini';
+import { CodeParams, LIMITS } from './generationSettings';
+import { ArtifactTarget } from './project';
+import { ProjectFile } from './vfs';
+import { CreationAlternate } from '../components/CreationHistory';
+
+export type VariantStatus = 'queued' | 'streaming' | 'done' | 'failed';
+
+/** The finished output of one generation. */
+export interface GeneratedArtifact {
+  html: string;
+  files?: ProjectFile[];
+  warnings: ArtifactWarning[];
+  params: CodeParams;
+}
+
+/** One of the parallel generations of a variants run, as shown in the grid. */
+export interface Variant {
+  id: string;
+  index: number; // 1-based, in launch order
+  status: VariantStatus;
+  receivedChars: number;
+  result?: GeneratedArtifact; // Set once done
+  error?: string; // Set when failed
+}
+
+/**
+ * Runs tasks with at most `limit` in flight, starting them in order. Settles
+ * once every task has, so one failure doesn't stop the rest.
+ */
+export async function runWithConcurrency<T>(tasks: (() => Promise<T>)[], limit: number): Promise<PromiseSettledResult<T>[]> {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker));
+  return results;
+}
+
+/**
+ * Seeds for each variant: consecutive seeds from a fixed one so the run can be
+ * repeated, or unset so every variant draws its own.
+ */
+export function variantSeeds(seed: number | undefined, count: number): (number | undefined)[] {
+  return Array.from({ length: count }, (_, i) => seed === undefined ? undefined : (seed + i) % (LIMITS.seed.max + 1));
+}
+
+/**
+ * Streams one generation to completion, reporting how much has arrived.
+ */
+export async function generateArtifact(request: BringToLifeRequest, signal: AbortSignal, onProgress: (receivedChars: number) => void): Promise<GeneratedArtifact> {
+  let receivedChars = 0;
+  for await (const event of streamBringToLife(request, signal)) {
+    if (event.type === 'chunk') {
+      receivedChars += event.text.length;
+      onProgress(receivedChars);
+    } else if (event.type === 'done') {
+      const { type, ...result } = event;
+      return result;
+    }
+  }
+  throw new Error("Generation ended without a result");
+}
+
+export function toAlternate(id: string, result: GeneratedArtifact, target?: ArtifactTarget): CreationAlternate {
+  return {
+    id,
+    html: result.html,
+    target: result.files ? target : undefined,
+    files: result.files,
+    params: result.params,
+    warnings: result.warnings.length > 0 ? result.warnings : undefined,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** One file of an artifact's virtual file system. */
+export interface ProjectFile {
+  path: string; // Relative to the project root, e.g. "src/App.tsx"
+  content: string; // Text, or a base64 data URL for binary assets
+}
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  children?: FileTreeNode[]; // Set for folders
+}
+
+const MAX_PATH_LENGTH = 200;
+// Inline data URLs shorter than this stay in the document when it is split
+const MIN_EXTRACTED_ASSET = 2048;
+
+const TEXT_ASSET_TYPES: Record<string, string> = {
+  svg: 'image/svg+xml',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  xml: 'application/xml',
+};
+
+const BINARY_ASSET_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  ico: 'image/x-icon',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+};
+
+const EXTENSION_BY_MIME: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+const extensionOf = (path: string) => path.includes('.') ? path.split('.').pop()!.toLowerCase() : '';
+
+export const isLocalUrl = (url: string) => !/^(?:[a-z][\w+.-]*:|\/\/|#)/i.test(url.trim());
+
+/**
+ * Root-relative form of a project path, or null for paths that escape the
+ * project or contain unexpected characters.
+ */
+export function normalizeProjectPath(path: string): string | null {
+  const parts: string[] = [];
+  for (const part of path.trim().replace(/\\/g, '/').split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..' || !/^[\w.@-]+$/.test(part)) return null;
+    parts.push(part);
+  }
+  const normalized = parts.join('/');
+  return normalized && normalized.length <= MAX_PATH_LENGTH ? normalized : null;
+}
+
+/**
+ * Resolves a URL found in `from` (e.g. "../img/logo.svg" in "css/site.css")
+ * to a project path. Query strings and fragments are ignored.
+ */
+export function resolveProjectPath(from: string, url: string): string | null {
+  const clean = url.trim().split(/[?#]/)[0];
+  if (!clean || !isLocalUrl(clean)) return null;
+  const parts = clean.startsWith('/') ? [] : from.split('/').slice(0, -1);
+  for (const part of clean.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return normalizeProjectPath(parts.join('/'));
+}
+
+/** The files a source is edited as: its virtual files, or a single-document creation as index.html. */
+export function getSourceFiles(source: { html: string; files?: ProjectFile[] }): ProjectFile[] {
+  return source.files || [{ path: 'index.html', content: source.html }];
+}
+
+export function sameProjectFiles(a: ProjectFile[], b: ProjectFile[]): boolean {
+  return a.length === b.length && a.every((file, i) => file.path === b[i].path && file.content === b[i].content);
+}
+
+/**
+ * Replaces files by path and appends new ones, keeping the original order.
+ */
+export function mergeProjectFiles(base: ProjectFile[], changes: ProjectFile[]): ProjectFile[] {
+  const changed = new Map(changes.map(f => [f.path, f]));
+  const merged = base.map(f => changed.get(f.path) || f);
+  return [...merged, ...changes.filter(f => !base.some(b => b.path === f.path))];
+}
+
+/** MIME type of a file that is referenced by URL rather than run or inlined as code. */
+export function getAssetMimeType(path: string): string | null {
+  const extension = extensionOf(path);
+  return TEXT_ASSET_TYPES[extension] || BINARY_ASSET_TYPES[extension] || null;
+}
+
+export function isBinaryContent(content: string): boolean {
+  return /^data:[^,]*;base64,/.test(content);
+}
+
+export function isBinaryAssetPath(path: string): boolean {
+  return extensionOf(path) in BINARY_ASSET_TYPES;
+}
+
+/** A data URL for an asset file, whether it is stored as text or as a data URL. */
+export function toAssetDataUrl(file: ProjectFile): string {
+  if (isBinaryContent(file.content)) return file.content;
+  return `data:${getAssetMimeType(file.path) || 'text/plain'};charset=utf-8,${encodeURIComponent(file.content)}`;
+}
+
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Points CSS url() references and src/href/poster attributes at asset files
+ * to data URLs, since the opaque-origin preview can't load relative paths.
+ */
+export function inlineAssetReferences(text: string, from: string, files: Map<string, ProjectFile>): string {
+  const resolve = (url: string) => {
+    const path = resolveProjectPath(from, url);
+    const file = path ? files.get(path) : undefined;
+    return file && getAssetMimeType(file.path) ? toAssetDataUrl(file) : null;
+  };
+  return text
+    .replace(/url\(\s*(["']?)([^"')]+)\1\s*\)/gi, (match, quote: string, url: string) => {
+      const dataUrl = resolve(url);
+      return dataUrl ? `url("${dataUrl}")` : match;
+    })
+    .replace(/(\s(?:src|href|poster)\s*=\s*)(["'])([^"']+)\2/gi, (match, prefix: string, quote: string, url: string) => {
+      const dataUrl = resolve(url);
+      return dataUrl ? `${prefix}${quote}${dataUrl}${quote}` : match;
+    });
+}
+
+/**
+ * Splits a single generated document into index.html, its stylesheets and
+ * scripts, and large inline images as files under assets/. Returns null when
+ * there is nothing worth splitting out.
+ */
+export function splitHtmlDocument(html: string): ProjectFile[] | null {
+  if (!/<html[\s>]/i.test(html)) return null;
+  const files: ProjectFile[] = [];
+  const add = (base: string, extension: string, content: string) => {
+    let path = `${base}.${extension}`;
+    for (let n = 2; files.some(f => f.path === path); n++) path = `${base}-${n}.${extension}`;
+    files.push({ path, content });
+    return path;
+  };
+
+  let index = html
+    .replace(/<style\b([^>]*)>([\s\S]*?)<\/style>/gi, (tag, attrs: string, css: string) => {
+      if (!css.trim() || /\bmedia\s*=/i.test(attrs)) return tag;
+      return `<link rel="stylesheet" href="${add('styles', 'css', css.trim() + '\n')}">`;
+    })
+    .replace(/<script\b([^>]*)>([\s\S]*?)<\/script>/gi, (tag, attrs: string, js: string) => {
+      if (!js.trim() || /\bsrc\s*=/i.test(attrs)) return tag;
+      const type = attrs.match(/\btype\s*=\s*["']?([^"'\s>]+)/i)?.[1].toLowerCase();
+      if (type && type !== 'module' && type !== 'text/javascript') return tag;
+      const path = add(type === 'module' ? 'app' : 'script', 'js', js.trim() + '\n');
+      return `<script${attrs} src="${path}"></script>`;
+    });
+
+  // Large images move out of the markup and the stylesheets; scripts keep theirs, since they can't resolve paths
+  const extracted = new Map<string, string>();
+  const extractImages = (text: string) => text.replace(/data:(image\/(?:png|jpeg|gif|webp|svg\+xml));base64,[A-Za-z0-9+/=]+/g, (url, mimeType: string) => {
+    if (url.length < MIN_EXTRACTED_ASSET) return url;
+    if (!extracted.has(url)) extracted.set(url, add('assets/image', EXTENSION_BY_MIME[mimeType], url));
+    return extracted.get(url)!;
+  });
+  index = extractImages(index);
+  for (const file of files) {
+    if (file.path.endsWith('.css')) file.content = extractImages(file.content);
+  }
+
+  return files.length > 0 ? [{ path: 'index.html', content: index }, ...files] : null;
+}
+
+/**
+ * Nests file paths into folders, folders first and each level sorted by name.
+ */
+export function buildFileTree(files: ProjectFile[]): FileTreeNode[] {
+  const root: FileTreeNode[] = [];
+  for (const file of files) {
+    let level = root;
+    const parts = file.path.split('/');
+    parts.forEach((name, i) => {
+      const path = parts.slice(0, i + 1).join('/');
+      const isFolder = i < parts.length - 1;
+      let node = level.find(n => n.name === name && !!n.children === isFolder);
+      if (!node) {
+        node = isFolder ? { name, path, children: [] } : { name, path };
+        level.push(node);
+      }
+      if (node.children) level = node.children;
+    });
+  }
+  const sort = (nodes: FileTreeNode[]): FileTreeNode[] => nodes
+    .sort((a, b) => Number(!a.children) - Number(!b.children) || a.name.localeCompare(b.name))
+    .map(n => n.children ? { ...n, children: sort(n.children) } : n);
+  return sort(root);
+}